@@ -0,0 +1,449 @@
+/**
+ * Elevation from local DEM tiles - SRTM .hgt files or GeoTIFFs on disk
+ *
+ * Tiles are opened lazily: .hgt files are read whole on first use, GeoTIFFs
+ * one strip or tile block at a time, so large 1/3 arc-second rasters work too.
+ * GeoTIFFs must be in geographic (lat/lon) coordinates.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ELEVATION_CONFIG } from '../config';
+
+export interface ElevationSource {
+  /** Elevation in meters, or null where no tile covers the point */
+  elevationAt(lon: number, lat: number): number | null;
+}
+
+// One raster: pixel lookups plus the mapping from lon/lat to pixel position
+interface DemTile {
+  width: number;
+  height: number;
+  /** Fractional pixel position of a point, with pixel centers at whole numbers */
+  toPixel(lon: number, lat: number): [number, number];
+  /** Elevation of one pixel, or null for a void */
+  value(col: number, row: number): number | null;
+}
+
+/**
+ * Open every .hgt and .tif/.tiff tile in a directory (default: DEM_DIR)
+ * Returns null when no directory is configured or it holds no usable tiles
+ */
+export function createDemSource(directory: string = ELEVATION_CONFIG.demDirectory): ElevationSource | null {
+  if (!directory) return null;
+
+  let files: string[];
+  try {
+    files = fs.readdirSync(directory);
+  } catch (error) {
+    throw new Error(`Cannot read DEM directory ${directory}: ${(error as Error).message}`);
+  }
+
+  const tiles: DemTile[] = [];
+  for (const file of files.sort()) {
+    const filePath = path.join(directory, file);
+    const ext = path.extname(file).toLowerCase();
+    try {
+      if (ext === '.hgt') tiles.push(openHgtTile(filePath));
+      else if (ext === '.tif' || ext === '.tiff') tiles.push(openGeoTiffTile(filePath));
+    } catch (error) {
+      console.error(`  Skipping DEM tile ${file}: ${(error as Error).message}`);
+    }
+  }
+
+  if (tiles.length === 0) {
+    console.error(`Warning: no usable .hgt or GeoTIFF tiles in ${directory} - elevation skipped`);
+    return null;
+  }
+  console.log(`Elevation: ${tiles.length} DEM tile(s) in ${directory}`);
+
+  return {
+    elevationAt(lon: number, lat: number): number | null {
+      for (const tile of tiles) {
+        const elevation = sampleTile(tile, lon, lat);
+        if (elevation !== null) return elevation;
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Bilinear interpolation between the four pixels around a point
+ * Null outside the tile or next to a void
+ */
+function sampleTile(tile: DemTile, lon: number, lat: number): number | null {
+  const [x, y] = tile.toPixel(lon, lat);
+  if (!(x >= 0 && y >= 0 && x <= tile.width - 1 && y <= tile.height - 1)) return null;
+
+  const col = Math.min(Math.floor(x), tile.width - 2);
+  const row = Math.min(Math.floor(y), tile.height - 2);
+  const corners = [tile.value(col, row), tile.value(col + 1, row), tile.value(col, row + 1), tile.value(col + 1, row + 1)];
+  if (corners.some(v => v === null)) return null;
+
+  const [v00, v10, v01, v11] = corners as number[];
+  const fx = x - col;
+  const fy = y - row;
+  return (v00 * (1 - fx) + v10 * fx) * (1 - fy) + (v01 * (1 - fx) + v11 * fx) * fy;
+}
+
+// ── SRTM .hgt ───────────────────────────────────────────────────────────────
+
+const HGT_VOID = -32768;
+
+/**
+ * SRTM tile named after its south-west corner, e.g. N41W074.hgt: a square grid
+ * of big-endian 16-bit heights from the north-west corner, 1201 or 3601 a side
+ */
+function openHgtTile(filePath: string): DemTile {
+  const match = path.basename(filePath).match(/^([NS])(\d{2})([EW])(\d{3})/i);
+  if (!match) {
+    throw new Error('name must give the south-west corner, e.g. N41W074.hgt');
+  }
+  const south = (match[1].toUpperCase() === 'S' ? -1 : 1) * Number(match[2]);
+  const west = (match[3].toUpperCase() === 'W' ? -1 : 1) * Number(match[4]);
+
+  const size = Math.sqrt(fs.statSync(filePath).size / 2);
+  if (!Number.isInteger(size) || size < 2) {
+    throw new Error('not a square grid of 16-bit heights');
+  }
+
+  let data: Buffer | undefined;
+  return {
+    width: size,
+    height: size,
+    toPixel: (lon, lat) => [(lon - west) * (size - 1), (south + 1 - lat) * (size - 1)],
+    value(col, row) {
+      data ??= fs.readFileSync(filePath);
+      const v = data.readInt16BE((row * size + col) * 2);
+      return v === HGT_VOID ? null : v;
+    },
+  };
+}
+
+// ── GeoTIFF ─────────────────────────────────────────────────────────────────
+
+const TIFF_TAGS = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  predictor: 317,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  geoKeyDirectory: 34735,
+  gdalNoData: 42113,
+} as const;
+
+// Bytes per value for each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const GEO_KEYS = { modelType: 1024, rasterType: 1025 } as const;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+const RASTER_PIXEL_IS_POINT = 2;
+
+const COMPRESSION = { none: 1, lzw: 5, deflate: 8, adobeDeflate: 32946 } as const;
+const PREDICTOR = { none: 1, horizontal: 2, floatingPoint: 3 } as const;
+
+/**
+ * Single-band GeoTIFF in lon/lat, stripped or tiled, uncompressed, LZW or Deflate
+ */
+function openGeoTiffTile(filePath: string): DemTile {
+  // Blocks are read lazily while sampling, so the file is opened for each read
+  // (only on a block cache miss) rather than holding a descriptor per tile
+  const read = (offset: number, length: number): Buffer => {
+    const buffer = Buffer.alloc(length);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, length, offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+    return buffer;
+  };
+
+  const header = read(0, 8);
+  const order = header.toString('latin1', 0, 2);
+  if (order !== 'II' && order !== 'MM') throw new Error('not a TIFF file');
+  const le = order === 'II';
+  const u16 = (b: Buffer, o: number) => (le ? b.readUInt16LE(o) : b.readUInt16BE(o));
+  const u32 = (b: Buffer, o: number) => (le ? b.readUInt32LE(o) : b.readUInt32BE(o));
+  if (u16(header, 2) === 43) throw new Error('BigTIFF is not supported');
+  if (u16(header, 2) !== 42) throw new Error('not a TIFF file');
+
+  // First image directory: each entry is tag, type, count, then the value or its offset
+  const ifdOffset = u32(header, 4);
+  const entryCount = u16(read(ifdOffset, 2), 0);
+  const entries = read(ifdOffset + 2, entryCount * 12);
+  const tags = new Map<number, number[] | string>();
+  for (let i = 0; i < entryCount; i++) {
+    const tag = u16(entries, i * 12);
+    const type = u16(entries, i * 12 + 2);
+    const count = u32(entries, i * 12 + 4);
+    const size = TIFF_TYPE_SIZES[type];
+    if (!size) continue;
+    const bytes = size * count;
+    const data = bytes <= 4 ? entries.subarray(i * 12 + 8, i * 12 + 12) : read(u32(entries, i * 12 + 8), bytes);
+    tags.set(tag, type === 2 ? data.toString('latin1', 0, count).replace(/\0.*$/, '') : readTiffValues(data, type, count, le));
+  }
+
+  const numbers = (tag: number): number[] | undefined => {
+    const value = tags.get(tag);
+    return Array.isArray(value) ? value : undefined;
+  };
+  const number = (tag: number, fallback?: number): number => {
+    const value = numbers(tag)?.[0] ?? fallback;
+    if (value === undefined) throw new Error(`missing TIFF tag ${tag}`);
+    return value;
+  };
+
+  const width = number(TIFF_TAGS.imageWidth);
+  const height = number(TIFF_TAGS.imageLength);
+  if (number(TIFF_TAGS.samplesPerPixel, 1) !== 1) throw new Error('only single-band elevation rasters are supported');
+  const bits = number(TIFF_TAGS.bitsPerSample, 1);
+  const format = number(TIFF_TAGS.sampleFormat, 1); // 1 unsigned, 2 signed, 3 float
+  const compression = number(TIFF_TAGS.compression, COMPRESSION.none);
+  const predictor = number(TIFF_TAGS.predictor, PREDICTOR.none);
+  if (!Object.values(COMPRESSION).includes(compression as never)) {
+    throw new Error(`unsupported compression ${compression} (use none, LZW or Deflate)`);
+  }
+  const readSample = sampleReader(bits, format);
+
+  // Georeferencing: a tie point and pixel size, in degrees
+  const scale = numbers(TIFF_TAGS.modelPixelScale);
+  const tiepoint = numbers(TIFF_TAGS.modelTiepoint);
+  if (!scale || !tiepoint) throw new Error('no GeoTIFF georeferencing (pixel scale and tie point)');
+  const geoKeys = readGeoKeys(numbers(TIFF_TAGS.geoKeyDirectory) || []);
+  const modelType = geoKeys.get(GEO_KEYS.modelType);
+  if ((modelType !== undefined && modelType !== MODEL_TYPE_GEOGRAPHIC) || scale[0] > 1) {
+    throw new Error('not in geographic coordinates - reproject it, e.g. gdalwarp -t_srs EPSG:4326');
+  }
+  // Pixel-is-area rasters tie the pixel's corner, not its center
+  const centerShift = geoKeys.get(GEO_KEYS.rasterType) === RASTER_PIXEL_IS_POINT ? 0 : 0.5;
+  const [tieCol, tieRow, , tieLon, tieLat] = tiepoint;
+  const [scaleX, scaleY] = scale;
+
+  const noDataText = tags.get(TIFF_TAGS.gdalNoData);
+  const noData = typeof noDataText === 'string' && noDataText.trim() ? Number(noDataText) : undefined;
+
+  // Image data comes in blocks: tiles, or strips the full width of the image
+  const tiled = tags.has(TIFF_TAGS.tileOffsets);
+  const blockWidth = tiled ? number(TIFF_TAGS.tileWidth) : width;
+  const blockHeight = tiled ? number(TIFF_TAGS.tileLength) : Math.min(number(TIFF_TAGS.rowsPerStrip, height), height);
+  const blocksAcross = Math.ceil(width / blockWidth);
+  const offsets = numbers(tiled ? TIFF_TAGS.tileOffsets : TIFF_TAGS.stripOffsets) || [];
+  const byteCounts = numbers(tiled ? TIFF_TAGS.tileByteCounts : TIFF_TAGS.stripByteCounts) || [];
+  const bytesPerSample = bits / 8;
+  const blockBytes = blockWidth * blockHeight * bytesPerSample;
+
+  // Most recently used blocks; Map keeps insertion order, so the first key is the oldest
+  const blocks = new Map<number, { data: Buffer; le: boolean }>();
+  const loadBlock = (index: number) => {
+    let block = blocks.get(index);
+    if (block) {
+      blocks.delete(index);
+    } else {
+      if (offsets[index] === undefined) throw new Error(`${path.basename(filePath)}: missing image block ${index}`);
+      const raw = read(offsets[index], byteCounts[index]);
+      const data = compression === COMPRESSION.lzw ? decodeLzw(raw, blockBytes)
+        : compression === COMPRESSION.none ? raw
+        : zlib.inflateSync(raw);
+      block = undoPredictor(data, predictor, blockWidth, bytesPerSample, le);
+      if (blocks.size >= ELEVATION_CONFIG.maxCachedBlocks) {
+        blocks.delete(blocks.keys().next().value as number);
+      }
+    }
+    blocks.set(index, block);
+    return block;
+  };
+
+  return {
+    width,
+    height,
+    toPixel: (lon, lat) => [
+      (lon - tieLon) / scaleX + tieCol - centerShift,
+      (tieLat - lat) / scaleY + tieRow - centerShift,
+    ],
+    value(col, row) {
+      const block = loadBlock(Math.floor(row / blockHeight) * blocksAcross + Math.floor(col / blockWidth));
+      const offset = ((row % blockHeight) * blockWidth + (col % blockWidth)) * bytesPerSample;
+      if (offset + bytesPerSample > block.data.length) return null;
+      const v = readSample(block.data, offset, block.le);
+      return v === noData || !Number.isFinite(v) ? null : v;
+    },
+  };
+}
+
+function readTiffValues(data: Buffer, type: number, count: number, le: boolean): number[] {
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    switch (type) {
+      case 3: values.push(le ? data.readUInt16LE(i * 2) : data.readUInt16BE(i * 2)); break;
+      case 4: values.push(le ? data.readUInt32LE(i * 4) : data.readUInt32BE(i * 4)); break;
+      case 8: values.push(le ? data.readInt16LE(i * 2) : data.readInt16BE(i * 2)); break;
+      case 9: values.push(le ? data.readInt32LE(i * 4) : data.readInt32BE(i * 4)); break;
+      case 11: values.push(le ? data.readFloatLE(i * 4) : data.readFloatBE(i * 4)); break;
+      case 12: values.push(le ? data.readDoubleLE(i * 8) : data.readDoubleBE(i * 8)); break;
+      case 5: case 10: {
+        const read = type === 5 ? (le ? data.readUInt32LE : data.readUInt32BE) : (le ? data.readInt32LE : data.readInt32BE);
+        values.push(read.call(data, i * 8) / read.call(data, i * 8 + 4));
+        break;
+      }
+      case 6: values.push(data.readInt8(i)); break;
+      default: values.push(data[i]);
+    }
+  }
+  return values;
+}
+
+/**
+ * GeoKey values by id from the GeoKeyDirectory tag (only keys stored inline)
+ */
+function readGeoKeys(directory: number[]): Map<number, number> {
+  const keys = new Map<number, number>();
+  for (let i = 4; i + 3 < directory.length; i += 4) {
+    const [id, location, , value] = directory.slice(i, i + 4);
+    if (location === 0) keys.set(id, value);
+  }
+  return keys;
+}
+
+function sampleReader(bits: number, format: number): (data: Buffer, offset: number, le: boolean) => number {
+  const key = `${format}:${bits}`;
+  switch (key) {
+    case '1:8': return (d, o) => d.readUInt8(o);
+    case '2:8': return (d, o) => d.readInt8(o);
+    case '1:16': return (d, o, le) => (le ? d.readUInt16LE(o) : d.readUInt16BE(o));
+    case '2:16': return (d, o, le) => (le ? d.readInt16LE(o) : d.readInt16BE(o));
+    case '1:32': return (d, o, le) => (le ? d.readUInt32LE(o) : d.readUInt32BE(o));
+    case '2:32': return (d, o, le) => (le ? d.readInt32LE(o) : d.readInt32BE(o));
+    case '3:32': return (d, o, le) => (le ? d.readFloatLE(o) : d.readFloatBE(o));
+    case '3:64': return (d, o, le) => (le ? d.readDoubleLE(o) : d.readDoubleBE(o));
+    default: throw new Error(`unsupported sample type (format ${format}, ${bits} bits)`);
+  }
+}
+
+/**
+ * Reverse the TIFF predictor applied before compression, row by row
+ * Floating-point prediction also splits each value's bytes into planes,
+ * most significant first, so the result is read big-endian
+ */
+function undoPredictor(data: Buffer, predictor: number, blockWidth: number, bytesPerSample: number, le: boolean): { data: Buffer; le: boolean } {
+  const rowBytes = blockWidth * bytesPerSample;
+  const rows = Math.floor(data.length / rowBytes);
+
+  if (predictor === PREDICTOR.horizontal) {
+    const bits = bytesPerSample * 8;
+    const mask = 2 ** bits;
+    const readUInt = (o: number) => (le ? data.readUIntLE(o, bytesPerSample) : data.readUIntBE(o, bytesPerSample));
+    const writeUInt = (v: number, o: number) => (le ? data.writeUIntLE(v, o, bytesPerSample) : data.writeUIntBE(v, o, bytesPerSample));
+    for (let row = 0; row < rows; row++) {
+      for (let col = 1; col < blockWidth; col++) {
+        const o = row * rowBytes + col * bytesPerSample;
+        writeUInt((readUInt(o) + readUInt(o - bytesPerSample)) % mask, o);
+      }
+    }
+    return { data, le };
+  }
+
+  if (predictor === PREDICTOR.floatingPoint) {
+    const out = Buffer.alloc(data.length);
+    for (let row = 0; row < rows; row++) {
+      const start = row * rowBytes;
+      for (let i = 1; i < rowBytes; i++) {
+        data[start + i] = (data[start + i] + data[start + i - 1]) & 0xff;
+      }
+      for (let col = 0; col < blockWidth; col++) {
+        for (let b = 0; b < bytesPerSample; b++) {
+          out[start + col * bytesPerSample + b] = data[start + b * blockWidth + col];
+        }
+      }
+    }
+    return { data: out, le: false };
+  }
+
+  return { data, le };
+}
+
+/**
+ * TIFF LZW: codes of 9 to 12 bits, most significant bit first, widening one
+ * code early; 256 clears the table and 257 ends the data
+ */
+function decodeLzw(input: Buffer, expectedLength: number): Buffer {
+  const output = Buffer.alloc(expectedLength);
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const length = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    length[i] = 1;
+  }
+
+  let outPos = 0;
+  let bitPos = 0;
+  let codeWidth = 9;
+  let next = 258;
+  let previous = -1;
+
+  const readCode = (): number => {
+    if (bitPos + codeWidth > input.length * 8) return 257;
+    let code = 0;
+    for (let i = 0; i < codeWidth; i++, bitPos++) {
+      code = (code << 1) | ((input[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+    }
+    return code;
+  };
+  const firstByte = (code: number): number => {
+    while (prefix[code] >= 0) code = prefix[code];
+    return suffix[code];
+  };
+  const write = (code: number) => {
+    const end = outPos + length[code];
+    for (let pos = end - 1, c = code; c >= 0; pos--, c = prefix[c]) {
+      if (pos < expectedLength) output[pos] = suffix[c];
+    }
+    outPos = end;
+  };
+  const add = (code: number, byte: number) => {
+    if (next >= 4096) return;
+    prefix[next] = code;
+    suffix[next] = byte;
+    length[next] = length[code] + 1;
+    next++;
+    if (next >= (1 << codeWidth) - 1 && codeWidth < 12) codeWidth++;
+  };
+
+  while (outPos < expectedLength) {
+    const code = readCode();
+    if (code === 257) break;
+    if (code === 256) {
+      codeWidth = 9;
+      next = 258;
+      previous = -1;
+      continue;
+    }
+    if (previous < 0) {
+      write(code);
+    } else if (code < next) {
+      write(code);
+      add(previous, firstByte(code));
+    } else {
+      add(previous, firstByte(previous));
+      write(next - 1);
+    }
+    previous = code;
+  }
+
+  return output;
+}
@@ -0,0 +1,139 @@
+/**
+ * GraphHopper routing provider (foot profile)
+ */
+
+import { Coordinate, GraphHopperInstruction, GraphHopperPath, GraphHopperResponse, Route, RouteLeg, RouteStep } from '../types';
+import { calculateWalkingDuration } from '../utils/format';
+import { calculatePathDistance } from '../utils/geo';
+import { httpGet } from './http';
+import { RouteRequestOptions, RoutingProvider } from './routing';
+
+// GraphHopper instruction signs mapped to OSRM-style instruction/modifier pairs
+const INSTRUCTION_SIGNS: Record<number, { instruction: string; modifier?: string }> = {
+  [-98]: { instruction: 'turn', modifier: 'uturn' },
+  [-8]: { instruction: 'turn', modifier: 'uturn' },
+  [-7]: { instruction: 'fork', modifier: 'slight left' },
+  [-6]: { instruction: 'roundabout' },
+  [-3]: { instruction: 'turn', modifier: 'sharp left' },
+  [-2]: { instruction: 'turn', modifier: 'left' },
+  [-1]: { instruction: 'turn', modifier: 'slight left' },
+  0: { instruction: 'continue', modifier: 'straight' },
+  1: { instruction: 'turn', modifier: 'slight right' },
+  2: { instruction: 'turn', modifier: 'right' },
+  3: { instruction: 'turn', modifier: 'sharp right' },
+  4: { instruction: 'arrive' },
+  5: { instruction: 'arrive' },
+  6: { instruction: 'roundabout' },
+  7: { instruction: 'fork', modifier: 'slight right' },
+  8: { instruction: 'turn', modifier: 'uturn' },
+};
+
+// Sign for "via point reached" - marks the end of a leg
+const VIA_REACHED_SIGN = 5;
+const FINISH_SIGN = 4;
+
+/**
+ * Create a GraphHopper provider
+ * @param baseUrl GraphHopper server URL, e.g. http://localhost:8989 or https://graphhopper.com/api/1
+ */
+export function createGraphHopperProvider(baseUrl: string, apiKey?: string): RoutingProvider {
+  const name = `GraphHopper (${baseUrl})`;
+
+  return {
+    name,
+    async fetchRoutes(waypoints: Coordinate[], options: RouteRequestOptions = {}): Promise<Route[]> {
+      const params = new URLSearchParams();
+      for (const p of waypoints) {
+        params.append('point', `${p.lat},${p.lon}`);
+      }
+      params.append('profile', 'foot');
+      params.append('points_encoded', 'false');
+      params.append('instructions', 'true');
+      if (apiKey) params.append('key', apiKey);
+      // GraphHopper only computes alternatives for routes without via points
+      if (options.alternatives && waypoints.length === 2) {
+        params.append('algorithm', 'alternative_route');
+        params.append('alternative_route.max_paths', String(options.alternatives + 1));
+      }
+
+      const url = `${baseUrl.replace(/\/$/, '')}/route?${params.toString()}`;
+
+      console.log(`Fetching route from ${name}...`);
+
+      const data = await httpGet<GraphHopperResponse>(url);
+
+      const paths = data.paths || [];
+      if (paths.length === 0) {
+        throw new Error('GraphHopper error: no path returned');
+      }
+
+      return paths.map(path => convertGraphHopperPath(path, name));
+    },
+  };
+}
+
+function convertGraphHopperPath(path: GraphHopperPath, provider: string): Route {
+  const coordinates = path.points.coordinates;
+
+  return {
+    distance: path.distance,
+    duration: calculateWalkingDuration(path.distance),
+    coordinates,
+    legs: splitLegs(path.instructions, coordinates),
+    provider,
+  };
+}
+
+/**
+ * GraphHopper returns one instruction list for the whole path;
+ * split it into legs at each "via reached" instruction
+ */
+function splitLegs(instructions: GraphHopperInstruction[], coordinates: Array<[number, number]>): RouteLeg[] {
+  const legs: RouteLeg[] = [];
+  let current: RouteStep[] = [];
+  let legStart = true;
+
+  for (const instr of instructions) {
+    current.push(convertInstruction(instr, coordinates, legStart));
+    legStart = false;
+
+    if (instr.sign === VIA_REACHED_SIGN || instr.sign === FINISH_SIGN) {
+      legs.push(buildLeg(current));
+      current = [];
+      legStart = true;
+    }
+  }
+
+  if (current.length > 0) {
+    legs.push(buildLeg(current));
+  }
+
+  return legs;
+}
+
+function buildLeg(steps: RouteStep[]): RouteLeg {
+  const distance = steps.reduce((sum, s) => sum + s.distance, 0);
+  return { distance, duration: calculateWalkingDuration(distance), steps };
+}
+
+function convertInstruction(
+  instr: GraphHopperInstruction,
+  coordinates: Array<[number, number]>,
+  isLegStart: boolean
+): RouteStep {
+  const mapped = isLegStart ? { instruction: 'depart' } : INSTRUCTION_SIGNS[instr.sign] || { instruction: 'continue' };
+  const [from, to] = instr.interval;
+  const geometry = coordinates.slice(from, to + 1);
+  const distance = instr.distance || calculatePathDistance(geometry);
+
+  return {
+    instruction: mapped.instruction,
+    modifier: mapped.modifier,
+    name: instr.street_name || '',
+    ref: instr.street_ref,
+    distance,
+    duration: calculateWalkingDuration(distance),
+    location: coordinates[from],
+    geometry: geometry.length > 1 ? geometry : undefined,
+  };
+}
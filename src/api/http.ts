@@ -0,0 +1,265 @@
+/**
+ * Shared HTTP client for every external API (routing, Nominatim, Overpass, tiles)
+ *
+ * In record mode each response is also written to the fixture directory;
+ * in replay mode responses come only from there, so a run needs no network
+ * and gives the same output every time.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import axios from 'axios';
+import { API_CONFIG, HTTP_CONFIG, HTTP_MODES } from '../config';
+import { HttpFixture, HttpMode } from '../types';
+import { schedule } from './scheduler';
+
+export interface HttpOptions {
+  headers?: Record<string, string>;
+  /** Request timeout (ms), default API_CONFIG.requestTimeoutMs */
+  timeout?: number;
+}
+
+interface HttpResponse {
+  status: number;
+  contentType: string;
+  data: Buffer;
+  retryAfter?: string;
+}
+
+// A failed request; status and retryAfterMs are set when the server answered
+export interface HttpRequestError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+}
+
+// Query parameters that carry credentials - left out of fixture names and files
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'access_token', 'token'];
+
+let mode: HttpMode = HTTP_CONFIG.mode;
+let fixtureDirectory: string = HTTP_CONFIG.fixtureDirectory;
+
+/**
+ * Validate an HTTP mode name
+ */
+export function parseHttpMode(value: string): HttpMode {
+  if (!HTTP_MODES.includes(value as HttpMode)) {
+    throw new Error(`Invalid HTTP mode: ${value}. Expected one of: ${HTTP_MODES.join(', ')}`);
+  }
+  return value as HttpMode;
+}
+
+/**
+ * Switch mode and fixture directory (e.g. from --record/--replay)
+ */
+export function configureHttp(newMode: HttpMode, directory: string = fixtureDirectory): void {
+  mode = parseHttpMode(newMode);
+  fixtureDirectory = directory;
+}
+
+export function getHttpMode(): HttpMode {
+  return mode;
+}
+
+export function getFixtureDirectory(): string {
+  return path.resolve(fixtureDirectory);
+}
+
+/**
+ * GET a JSON response
+ */
+export async function httpGet<T>(url: string, options: HttpOptions = {}): Promise<T> {
+  const response = await request('GET', url, undefined, options);
+  return parseJson<T>(response, url);
+}
+
+/**
+ * GET a binary response, e.g. a map tile
+ */
+export async function httpGetBinary(url: string, options: HttpOptions = {}): Promise<Buffer> {
+  const response = await request('GET', url, undefined, options);
+  return response.data;
+}
+
+/**
+ * POST a body (a string as-is, anything else as JSON) and parse the JSON response
+ */
+export async function httpPost<T>(url: string, body: unknown, options: HttpOptions = {}): Promise<T> {
+  const isText = typeof body === 'string';
+  const requestBody = isText ? body : JSON.stringify(body);
+  const headers = { 'Content-Type': isText ? 'application/x-www-form-urlencoded' : 'application/json', ...options.headers };
+  const response = await request('POST', url, requestBody, { ...options, headers });
+  return parseJson<T>(response, url);
+}
+
+async function request(method: string, url: string, requestBody: string | undefined, options: HttpOptions): Promise<HttpResponse> {
+  const fixturePath = getFixturePath(method, url, requestBody);
+
+  const response = mode === 'replay'
+    ? readFixture(fixturePath, method, url)
+    : await fetchLive(method, url, requestBody, options);
+
+  if (mode === 'record') {
+    writeFixture(fixturePath, method, url, requestBody, response);
+  }
+
+  // Same failure as axios, so callers handle live and replayed errors alike
+  if (response.status < 200 || response.status >= 300) {
+    const error: HttpRequestError = new Error(`Request failed with status code ${response.status}`);
+    error.status = response.status;
+    error.retryAfterMs = parseRetryAfter(response.retryAfter);
+    throw error;
+  }
+  return response;
+}
+
+/**
+ * Send a request to each mirror in turn until one succeeds
+ * Transient failures (network errors, timeouts, 429, 5xx) move on to the next
+ * mirror; once every mirror has failed, wait - the longest Retry-After any of
+ * them asked for, or an exponential backoff - and go round again
+ * Replay goes round once: fixtures never change, and a missing one should fail
+ * straight away with its path
+ */
+export async function withMirrors<T>(
+  mirrors: readonly string[],
+  send: (baseUrl: string) => Promise<T>,
+  retries: number = API_CONFIG.retries
+): Promise<T> {
+  let lastError: HttpRequestError = new Error('No servers configured');
+  let retryAfterMs = 0;
+  const passes = mode === 'replay' ? 0 : retries;
+
+  for (let pass = 0; pass <= passes; pass++) {
+    if (pass > 0) {
+      const backoffMs = API_CONFIG.retryBaseDelayMs * 2 ** (pass - 1);
+      const delayMs = Math.min(Math.max(backoffMs, retryAfterMs), API_CONFIG.retryMaxDelayMs);
+      console.error(`  ${lastError.message}; retrying in ${Math.ceil(delayMs / 1000)}s (${pass}/${passes})`);
+      await sleep(delayMs);
+      retryAfterMs = 0;
+    }
+
+    for (const mirror of mirrors) {
+      try {
+        return await send(mirror);
+      } catch (error) {
+        lastError = error as HttpRequestError;
+        if (!isRetryable(lastError)) throw lastError;
+        retryAfterMs = Math.max(retryAfterMs, lastError.retryAfterMs ?? 0);
+        if (mirrors.length > 1) {
+          console.error(`  ${new URL(mirror).hostname}: ${lastError.message}`);
+        }
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Network errors and timeouts (no status), 408, 429 and 5xx are worth retrying
+ */
+function isRetryable(error: HttpRequestError): boolean {
+  const { status } = error;
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Retry-After as milliseconds: either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Send a request over the network, queued behind other requests to the same host
+ */
+async function fetchLive(method: string, url: string, requestBody: string | undefined, options: HttpOptions): Promise<HttpResponse> {
+  const response = await schedule(url, () => axios.request<ArrayBuffer>({
+    method,
+    url,
+    data: requestBody,
+    headers: { 'User-Agent': API_CONFIG.userAgent, ...options.headers },
+    timeout: options.timeout ?? API_CONFIG.requestTimeoutMs,
+    responseType: 'arraybuffer',
+    // Error statuses are recorded too, then thrown by request()
+    validateStatus: () => true,
+  }));
+
+  return {
+    status: response.status,
+    contentType: String(response.headers['content-type'] || ''),
+    data: Buffer.from(response.data),
+    retryAfter: response.headers['retry-after'] ? String(response.headers['retry-after']) : undefined,
+  };
+}
+
+function parseJson<T>(response: HttpResponse, url: string): T {
+  try {
+    return JSON.parse(response.data.toString('utf8')) as T;
+  } catch {
+    throw new Error(`Invalid JSON response from ${redactUrl(url)}`);
+  }
+}
+
+/**
+ * Fixture file for a request: {dir}/{host}-{hash}.json, where the hash covers
+ * method, URL (without credentials) and body
+ */
+function getFixturePath(method: string, url: string, requestBody: string | undefined): string {
+  const safeUrl = redactUrl(url);
+  const hash = crypto.createHash('sha1').update(`${method} ${safeUrl}\n${requestBody ?? ''}`).digest('hex').slice(0, 16);
+  const host = new URL(safeUrl).hostname.replace(/[^a-zA-Z0-9_.-]/g, '_');
+  return path.join(getFixtureDirectory(), `${host}-${hash}.json`);
+}
+
+function readFixture(fixturePath: string, method: string, url: string): HttpResponse {
+  if (!fs.existsSync(fixturePath)) {
+    throw new Error(`No recorded response for ${method} ${redactUrl(url)} (expected ${fixturePath}). Record it first with HTTP_MODE=record or --record.`);
+  }
+
+  const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as HttpFixture;
+  return {
+    status: fixture.status,
+    contentType: fixture.contentType,
+    data: Buffer.from(fixture.body, fixture.encoding),
+    retryAfter: fixture.retryAfter,
+  };
+}
+
+function writeFixture(fixturePath: string, method: string, url: string, requestBody: string | undefined, response: HttpResponse): void {
+  const encoding = isTextContent(response.contentType) ? 'utf8' : 'base64';
+  const fixture: HttpFixture = {
+    method,
+    url: redactUrl(url),
+    ...(requestBody !== undefined ? { requestBody } : {}),
+    status: response.status,
+    contentType: response.contentType,
+    body: response.data.toString(encoding),
+    encoding,
+    ...(response.retryAfter ? { retryAfter: response.retryAfter } : {}),
+  };
+
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n');
+}
+
+function isTextContent(contentType: string): boolean {
+  return /^text\/|json|xml/.test(contentType);
+}
+
+function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  for (const param of SECRET_PARAMS) {
+    parsed.searchParams.delete(param);
+  }
+  return parsed.toString();
+}
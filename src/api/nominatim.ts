@@ -1,48 +1,166 @@
 /**
- * Nominatim (OpenStreetMap) reverse geocoding API client
+ * Nominatim (OpenStreetMap) geocoding API client
  */
 
-import axios from 'axios';
-import { API_ENDPOINTS, API_CONFIG } from '../config';
-import { NominatimResponse, NominatimAddress, RouteSegment, SegmentLocation, Waypoint, RouteStep } from '../types';
-import { calculatePathDistance } from '../utils/geo';
-
-// Request queue for rate limiting
-let lastRequestTime = 0;
+import { API_CONFIG, API_MIRRORS } from '../config';
+import {
+  GeocodeMatch,
+  Location,
+  LocationInput,
+  NominatimResponse,
+  NominatimAddress,
+  NominatimSearchResult,
+  RouteSegment,
+  SegmentLocation,
+  Waypoint,
+  RouteStep,
+} from '../types';
+import { httpGet, withMirrors } from './http';
+import { calculatePathDistance, haversineDistance } from '../utils/geo';
+import { formatDistance } from '../utils/format';
+
+// Results for this process, shared by every route in a batch
+const placeCache: Map<string, Promise<NominatimResponse | null>> = new Map();
+const searchCache: Map<string, Promise<NominatimSearchResult[]>> = new Map();
 
 /**
- * Fetch place name from coordinates with rate limiting
+ * Fetch place name from coordinates, retrying across mirrors
+ * Requests are rate limited by the shared scheduler (one per second)
+ * Results are cached (keyed to ~1 m) so repeated lookups don't hit the API;
+ * null means the lookup failed and is not cached
  */
-export async function fetchPlaceName(lat: number, lon: number): Promise<NominatimResponse | null> {
-  await enforceRateLimit();
+export function fetchPlaceName(lat: number, lon: number): Promise<NominatimResponse | null> {
+  const key = `${lat.toFixed(5)},${lon.toFixed(5)}`;
+  let result = placeCache.get(key);
+  if (!result) {
+    result = requestPlaceName(lat, lon);
+    placeCache.set(key, result);
+    result.then(data => {
+      if (!data) placeCache.delete(key);
+    });
+  }
+  return result;
+}
 
-  const url = `${API_ENDPOINTS.nominatim}?lat=${lat}&lon=${lon}&format=json&zoom=${API_CONFIG.nominatimZoom}&addressdetails=1`;
+async function requestPlaceName(lat: number, lon: number): Promise<NominatimResponse | null> {
+  const params = `lat=${lat}&lon=${lon}&format=json&zoom=${API_CONFIG.nominatimZoom}&addressdetails=1`;
 
   try {
-    const response = await axios.get<NominatimResponse>(url, {
-      headers: { 'User-Agent': API_CONFIG.userAgent },
-      timeout: API_CONFIG.requestTimeoutMs,
-    });
-    return response.data;
+    return await withMirrors(API_MIRRORS.nominatim, baseUrl => httpGet<NominatimResponse>(`${baseUrl}/reverse?${params}`));
   } catch (error) {
-    console.error(`  Failed to fetch place name for ${lat},${lon}`);
+    console.error(`  Failed to fetch place name for ${lat},${lon}: ${(error as Error).message}`);
     return null;
   }
 }
 
-async function enforceRateLimit(): Promise<void> {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
+/**
+ * Search for an address, best match first
+ * Results are cached per query; a failed search is not cached
+ */
+export function searchAddress(query: string): Promise<NominatimSearchResult[]> {
+  const key = query.trim().toLowerCase();
+  let result = searchCache.get(key);
+  if (!result) {
+    result = requestSearch(query);
+    searchCache.set(key, result);
+    result.catch(() => searchCache.delete(key));
+  }
+  return result;
+}
+
+async function requestSearch(query: string): Promise<NominatimSearchResult[]> {
+  const params = `q=${encodeURIComponent(query)}&format=json&addressdetails=1&limit=${API_CONFIG.geocodeResultLimit}`;
+
+  try {
+    return await withMirrors(API_MIRRORS.nominatim, baseUrl => httpGet<NominatimSearchResult[]>(`${baseUrl}/search?${params}`));
+  } catch (error) {
+    throw new Error(`Address search failed for "${query}": ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Coordinates for an address
+ * Throws when nothing matches, and when several distinct places do - picking
+ * one silently could send someone to the wrong town
+ */
+export async function geocodeAddress(address: string): Promise<GeocodeMatch> {
+  const matches = getDistinctMatches(await searchAddress(address));
+
+  if (matches.length === 0) {
+    throw new Error(`No match for address "${address}". Check the spelling or give coordinates.`);
+  }
+  if (matches.length > 1) {
+    const list = matches.map((m, i) => `  ${i + 1}. ${m.displayName} [${m.lat}, ${m.lon}]`).join('\n');
+    throw new Error(`Address "${address}" is ambiguous - ${matches.length} places match:\n${list}\nAdd a town, state or ZIP code, or give coordinates.`);
+  }
+  return matches[0];
+}
+
+/**
+ * Search results as matches, dropping any that are the same place as a
+ * better-ranked one (e.g. a building and its address point)
+ */
+function getDistinctMatches(results: NominatimSearchResult[]): GeocodeMatch[] {
+  const matches: GeocodeMatch[] = [];
+  for (const result of results) {
+    const match = { lat: parseFloat(result.lat), lon: parseFloat(result.lon), displayName: result.display_name };
+    if (isNaN(match.lat) || isNaN(match.lon)) continue;
+
+    const samePlace = matches.some(m =>
+      haversineDistance(m.lat, m.lon, match.lat, match.lon) < API_CONFIG.geocodeSamePlaceMeters
+    );
+    if (!samePlace) matches.push(match);
+  }
+  return matches;
+}
 
-  if (timeSinceLastRequest < API_CONFIG.nominatimDelayMs) {
-    await sleep(API_CONFIG.nominatimDelayMs - timeSinceLastRequest);
+/**
+ * Fill in missing coordinates from the address, or, when both are given,
+ * warn if the coordinates are far from the address
+ */
+export async function resolveLocation(input: LocationInput, label: string): Promise<Location> {
+  if (input.lat === undefined || input.lon === undefined) {
+    if (!input.address) {
+      throw new Error(`${label}: coordinates or an address are required`);
+    }
+
+    let match: GeocodeMatch;
+    try {
+      match = await geocodeAddress(input.address);
+    } catch (error) {
+      throw new Error(`${label}: ${(error as Error).message}`);
+    }
+    console.log(`  ${label}: "${input.address}" -> ${match.lat}, ${match.lon} (${match.displayName})`);
+    return { ...input, lat: match.lat, lon: match.lon };
   }
 
-  lastRequestTime = Date.now();
+  const location = { ...input, lat: input.lat, lon: input.lon };
+  if (location.address) {
+    await checkCoordinatesMatchAddress(location, label);
+  }
+  return location;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Warn when coordinates are far from every place matching their address
+ * A failed or empty search only skips the check
+ */
+async function checkCoordinatesMatchAddress(location: Location, label: string): Promise<void> {
+  let matches: GeocodeMatch[];
+  try {
+    matches = getDistinctMatches(await searchAddress(location.address));
+  } catch (error) {
+    console.error(`  ${label}: could not check coordinates against address (${(error as Error).message})`);
+    return;
+  }
+  if (matches.length === 0) return;
+
+  const distances = matches.map(m => haversineDistance(location.lat, location.lon, m.lat, m.lon));
+  const nearest = Math.min(...distances);
+  if (nearest > API_CONFIG.geocodeMismatchMeters) {
+    const match = matches[distances.indexOf(nearest)];
+    console.error(`  Warning: ${label} coordinates ${location.lat}, ${location.lon} are ${formatDistance(nearest)} from its address "${location.address}" (${match.displayName} is at ${match.lat}, ${match.lon})`);
+  }
 }
 
 /**
@@ -82,7 +200,6 @@ export function extractLocationName(data: NominatimResponse | null): string {
 /**
  * Fetch location names for all segments
  * Chains names so end of segment N = start of segment N+1
- * Batches requests in parallel for speed
  */
 export async function fetchSegmentLocations(
   segments: RouteSegment[]
@@ -113,32 +230,19 @@ export async function fetchSegmentLocations(
     });
   });
 
-  // Batch fetch all coordinates in parallel (with concurrency limit)
-  const batchSize = 5; // Process 5 requests at a time
+  // Request them all at once - the scheduler spaces them out, and reports
+  // an ETA while the queue is long
+  console.log(`  Looking up ${coordsToFetch.length} locations...`);
   const results: Map<string, NominatimResponse | null> = new Map();
-  const totalBatches = Math.ceil(coordsToFetch.length / batchSize);
-
-  for (let i = 0; i < coordsToFetch.length; i += batchSize) {
-    const batch = coordsToFetch.slice(i, i + batchSize);
-    const batchNum = Math.floor(i / batchSize) + 1;
-    console.log(`  Fetching batch ${batchNum}/${totalBatches} (${batch.length} locations)...`);
-
-    const batchPromises = batch.map(async (coord) => {
-      const key = `${coord.lat},${coord.lon}`;
-      if (!results.has(key)) {
-        const data = await fetchPlaceName(coord.lat, coord.lon);
-        results.set(key, data);
-      }
-      return { coord, data: results.get(key)! };
-    });
-
-    await Promise.all(batchPromises);
-  }
+  await Promise.all(coordsToFetch.map(async (coord) => {
+    results.set(`${coord.lat},${coord.lon}`, await fetchPlaceName(coord.lat, coord.lon));
+  }));
 
   // Build locations array using fetched data and log as we build
   const locations: SegmentLocation[] = [];
   let lastEndName: string | null = null;
   let lastEndAddr: NominatimAddress | undefined = undefined;
+  let lastEndFailed = false;
 
   for (let i = 0; i < segments.length; i++) {
     const seg = segments[i];
@@ -146,15 +250,18 @@ export async function fetchSegmentLocations(
     // Start name: use previous segment's end name, or fetch fresh for first segment
     let startName: string;
     let startAddr: NominatimAddress | undefined;
+    let startFailed: boolean;
 
     if (lastEndName !== null) {
       startName = lastEndName;
       startAddr = lastEndAddr;
+      startFailed = lastEndFailed;
     } else {
       const startKey = `${seg.startCoord[1]},${seg.startCoord[0]}`;
       const startData = results.get(startKey) || null;
       startName = extractLocationName(startData);
       startAddr = startData?.address;
+      startFailed = !startData;
     }
 
     // Get end name from fetched data
@@ -167,11 +274,13 @@ export async function fetchSegmentLocations(
       endName,
       startAddr,
       endAddr: endData?.address,
+      lookupFailed: startFailed || !endData,
     });
 
     // Save for next segment
     lastEndName = endName;
     lastEndAddr = endData?.address;
+    lastEndFailed = !endData;
 
     // Log as we complete each segment
     console.log(`  Segment ${seg.index}: ${startName} → ${endName}`);
@@ -1,82 +1,84 @@
 /**
- * OSRM API client - simplified
+ * OSRM routing provider
+ * Works with the public OSRM demo servers or a self-hosted osrm-backend
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
-import axios from 'axios';
-import { Location, OSRMRoute, RouteStep } from '../types';
-
-const OSRM_URL = 'https://routing.openstreetmap.de/routed-foot/route/v1/foot';
-const WALKING_SPEED_MPS = 1.34; // ~3 mph
+import { httpGet } from './http';
+import { Coordinate, OSRMResponse, OSRMRoute, OSRMStep, Route, RouteStep } from '../types';
+import { calculateWalkingDuration } from '../utils/format';
+import { RouteRequestOptions, RoutingProvider } from './routing';
 
 /**
- * Fetch route from OSRM
+ * Create an OSRM provider
+ * @param baseUrl Route service URL including profile, e.g. http://localhost:5000/route/v1/foot
  */
-export async function fetchRoute(start: Location, end: Location): Promise<OSRMRoute> {
-  const coords = `${start.lon},${start.lat};${end.lon},${end.lat}`;
-  // Request all available metadata: steps, annotations, and banners
-  const url = `${OSRM_URL}/${coords}?overview=full&geometries=geojson&steps=true&annotations=true`;
+export function createOsrmProvider(baseUrl: string): RoutingProvider {
+  const name = `OSRM (${baseUrl})`;
 
-  console.log('Fetching route from OSRM...');
+  return {
+    name,
+    async fetchRoutes(waypoints: Coordinate[], options: RouteRequestOptions = {}): Promise<Route[]> {
+      const coords = waypoints.map(p => `${p.lon},${p.lat}`).join(';');
+      // OSRM only computes alternatives for routes without via points
+      const alternatives = options.alternatives && waypoints.length === 2 ? options.alternatives : 0;
+      // Request all available metadata: steps, annotations, and banners
+      const url = `${baseUrl.replace(/\/$/, '')}/${coords}?overview=full&geometries=geojson&steps=true&annotations=true`
+        + (alternatives > 0 ? `&alternatives=${alternatives}` : '');
 
-  const response = await axios.get(url, { timeout: 30000 });
+      console.log(`Fetching route from ${name}...`);
 
-  if (response.data.code !== 'Ok') {
-    throw new Error(`OSRM error: ${response.data.code}`);
-  }
+      const data = await httpGet<OSRMResponse>(url);
 
-  // Save raw API response for inspection
-  const outputDir = path.join(__dirname, '..', '..', 'output');
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
-  }
-  const rawResponsePath = path.join(outputDir, 'osrm-raw-response.json');
-  fs.writeFileSync(rawResponsePath, JSON.stringify(response.data, null, 2));
-  console.log(`Raw OSRM API response saved to: ${rawResponsePath}`);
+      if (data.code !== 'Ok') {
+        throw new Error(`OSRM error: ${data.code}`);
+      }
 
-  const route = response.data.routes[0];
+      return data.routes.map(r => convertOsrmRoute(r, name));
+    },
+  };
+}
 
-  // Adjust duration for walking speed
-  route.duration = route.distance / WALKING_SPEED_MPS;
+/**
+ * Convert an OSRM route to our route type
+ */
+function convertOsrmRoute(osrmRoute: OSRMRoute, provider: string): Route {
+  const legs = osrmRoute.legs.map(leg => {
+    const steps = extractOsrmSteps(leg.steps);
+    const distance = steps.reduce((sum, s) => sum + s.distance, 0);
+    return { distance, duration: calculateWalkingDuration(distance), steps };
+  });
 
-  return route;
+  return {
+    distance: osrmRoute.distance,
+    // Adjust duration for walking speed
+    duration: calculateWalkingDuration(osrmRoute.distance),
+    coordinates: osrmRoute.geometry.coordinates,
+    legs,
+    provider,
+  };
 }
 
 /**
  * Extract steps directly from OSRM response
  */
-export function extractSteps(route: OSRMRoute): RouteStep[] {
+function extractOsrmSteps(osrmSteps: OSRMStep[]): RouteStep[] {
   const steps: RouteStep[] = [];
 
-  // Log first step structure to see all available fields
-  if (route.legs && route.legs[0] && route.legs[0].steps && route.legs[0].steps[0]) {
-    const firstStep = route.legs[0].steps[0];
-    console.log('\nFirst step from OSRM - available fields:');
-    console.log(JSON.stringify(Object.keys(firstStep), null, 2));
-    if (firstStep.maneuver) {
-      console.log('Maneuver fields:', JSON.stringify(Object.keys(firstStep.maneuver), null, 2));
-    }
-    console.log('Sample step data:', JSON.stringify(firstStep, null, 2));
-  }
+  for (const step of osrmSteps) {
+    if (step.maneuver) {
+      // Extract geometry if available (the actual path of this step)
+      const geometry = step.geometry?.coordinates || [];
 
-  for (const leg of route.legs) {
-    for (const step of leg.steps) {
-      if (step.maneuver) {
-        // Extract geometry if available (the actual path of this step)
-        const geometry = step.geometry?.coordinates || [];
-
-        steps.push({
-          instruction: step.maneuver.type,
-          modifier: step.maneuver.modifier,
-          name: step.name || '',
-          ref: step.ref,
-          distance: step.distance,
-          duration: step.distance / WALKING_SPEED_MPS,
-          location: step.maneuver.location,
-          geometry: geometry.length > 0 ? geometry : undefined,
-        });
-      }
+      steps.push({
+        instruction: step.maneuver.type,
+        modifier: step.maneuver.modifier,
+        name: step.name || '',
+        ref: step.ref,
+        distance: step.distance,
+        duration: calculateWalkingDuration(step.distance),
+        location: step.maneuver.location,
+        geometry: geometry.length > 0 ? geometry : undefined,
+      });
     }
   }
 
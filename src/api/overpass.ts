@@ -2,122 +2,278 @@
  * Overpass API client for querying OpenStreetMap POIs and ways
  */
 
-import axios from 'axios';
-import { Bounds } from '../types';
+import { API_CONFIG, API_MIRRORS, DISTANCE_THRESHOLDS, POI_CATEGORIES } from '../config';
+import { Bounds, POI, POICategory, RouteSegment } from '../types';
+import { boundsAround, densifyPath, haversineDistance, isPointInBounds } from '../utils/geo';
+import { httpPost, withMirrors } from './http';
 
-// Use a mirror that's often less loaded
-const OVERPASS_API = 'https://overpass.kumi.systems/api/interpreter';
+export { POI };
 
-export interface POI {
+// A node, or a way/relation with its center from "out center"
+interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
   id: number;
-  lat: number;
-  lon: number;
-  name: string;
-  type: string;
-  iconType: string;
-  priority: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
 }
 
-// POI types with survival priority (lower number = higher priority)
-const POI_TYPES: Record<string, { label: string; iconType: string; priority: number }> = {
-  'hospital': { label: 'Hospital', iconType: 'hospital', priority: 1 }, // Highest - medical emergency
-  'fire_station': { label: 'Fire Station', iconType: 'fire-station', priority: 2 }, // Emergency services
-  'police': { label: 'Police', iconType: 'police', priority: 3 }, // Emergency services
-  'place_of_worship': { label: 'Church', iconType: 'church', priority: 4 }, // Shelter
-  'fuel': { label: 'Gas', iconType: 'gas', priority: 5 }, // Supplies
-  'school': { label: 'School', iconType: 'school', priority: 6 }, // Landmark/shelter
-};
+// POIs per grid cell and category list for this process, shared by every
+// route in a batch so overlapping corridors fetch each area once
+const poiCache: Map<string, Promise<POI[]>> = new Map();
 
 /**
- * Query Overpass API for POIs within bounds
+ * Query Overpass API for POIs of the given categories within bounds, retrying across mirrors
+ * Throws if every attempt fails
  */
-export async function fetchPOIsInBounds(bounds: Bounds, segmentNum?: number): Promise<POI[]> {
-  const bbox = `${bounds.minLat},${bounds.minLon},${bounds.maxLat},${bounds.maxLon}`;
+export async function fetchPOIsInBounds(bounds: Bounds, categories: readonly POICategory[] = POI_CATEGORIES): Promise<POI[]> {
+  const pois = await fetchPOIsInCells(cellsInBounds(bounds), categories);
+  return pois.filter(poi => isPointInBounds(poi.lon, poi.lat, bounds));
+}
+
+/**
+ * All POIs of the given categories in the grid cells, fetching only the cells
+ * not already cached, in one query; a failure is not cached
+ */
+async function fetchPOIsInCells(cells: string[], categories: readonly POICategory[]): Promise<POI[]> {
+  const categoryKey = categories.map(c => `${c.id}:${c.priority}`).join(',');
+  const missing = cells.filter(cell => !poiCache.has(`${cell}|${categoryKey}`));
+
+  if (missing.length > 0) {
+    const request = requestPOIs(missing.map(cellFilter), categories);
+    for (const cell of missing) {
+      const key = `${cell}|${categoryKey}`;
+      // Ways and relations can reach into several cells; each is kept in the cell of its center
+      const result = request.then(pois => pois.filter(poi => cellOf(poi.lon, poi.lat) === cell));
+      poiCache.set(key, result);
+      result.catch(() => poiCache.delete(key));
+    }
+  }
+
+  const results = await Promise.all(cells.map(cell => poiCache.get(`${cell}|${categoryKey}`)!));
+  return dropDuplicateAreas(results.flat().sort((a, b) => a.priority - b.priority));
+}
+
+function cellOf(lon: number, lat: number): string {
+  const size = API_CONFIG.poiCellDegrees;
+  return `${Math.floor(lon / size)},${Math.floor(lat / size)}`;
+}
+
+/**
+ * Overpass bbox filter (south,west,north,east) for a grid cell
+ */
+function cellFilter(cell: string): string {
+  const size = API_CONFIG.poiCellDegrees;
+  const [x, y] = cell.split(',').map(Number);
+  return [y * size, x * size, (y + 1) * size, (x + 1) * size].map(v => v.toFixed(5)).join(',');
+}
+
+/**
+ * Grid cells overlapping the bounds
+ */
+function cellsInBounds(bounds: Bounds): string[] {
+  const size = API_CONFIG.poiCellDegrees;
+  const cells: string[] = [];
+  for (let x = Math.floor(bounds.minLon / size); x <= Math.floor(bounds.maxLon / size); x++) {
+    for (let y = Math.floor(bounds.minLat / size); y <= Math.floor(bounds.maxLat / size); y++) {
+      cells.push(`${x},${y}`);
+    }
+  }
+  return cells;
+}
 
-  // Query for amenities with names - fetch more so we have enough after filtering
-  const query = `[out:json][timeout:5];
+/**
+ * Grid cells within poiCorridorMeters of a path
+ */
+function corridorCells(coordinates: Array<[number, number]>): string[] {
+  const cells = new Set<string>();
+  // Sample often enough that no cell the corridor crosses is skipped
+  const spacing = API_CONFIG.poiCellDegrees * 111320 / 4;
+  for (const { coord } of densifyPath(coordinates, spacing)) {
+    cellsInBounds(boundsAround(coord[1], coord[0], API_CONFIG.poiCorridorMeters)).forEach(cell => cells.add(cell));
+  }
+  return [...cells];
+}
+
+async function requestPOIs(filters: string[], categories: readonly POICategory[]): Promise<POI[]> {
+  const query = `[out:json][timeout:${API_CONFIG.overpassTimeoutMs / 1000}];
 (
-  node["amenity"~"hospital|fire_station|police|place_of_worship|fuel|school"]["name"](${bbox});
+${filters.flatMap(filter => buildStatements(filter, categories)).join('\n')}
 );
-out body 20;`;
+out center;`;
 
-  try {
-    const response = await axios.post(OVERPASS_API, `data=${encodeURIComponent(query)}`, {
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      timeout: 10000,
+  const data = await withMirrors(API_MIRRORS.overpass, async (url) => {
+    const response = await httpPost<{ elements?: OverpassElement[]; remark?: string }>(url, `data=${encodeURIComponent(query)}`, {
+      timeout: API_CONFIG.overpassTimeoutMs,
     });
+    // A busy server can answer 200 with a partial result and a runtime error remark
+    if (response.remark?.includes('runtime error')) {
+      throw new Error(`Overpass ${response.remark}`);
+    }
+    return response;
+  });
 
-    const elements = response.data.elements || [];
+  const pois: POI[] = [];
+  for (const el of data.elements || []) {
+    const tags = el.tags || {};
+    const category = matchCategory(tags, categories);
+    if (!category) continue;
+    const name = tags.name || (category.nameOptional ? category.label : '');
+    if (!name) continue;
+    const position = el.type === 'node' ? el : el.center;
+    if (position?.lat === undefined || position.lon === undefined) continue;
 
-    // Log what we received
-    const amenityTypes: string[] = elements.map((el: any) => el.tags?.amenity).filter(Boolean);
-    const uniqueTypes = [...new Set(amenityTypes)];
+    pois.push({
+      id: `${el.type}/${el.id}`,
+      lat: position.lat,
+      lon: position.lon,
+      name,
+      type: category.label,
+      iconType: category.iconType,
+      priority: category.priority,
+      ...(tags.name ? {} : { unnamed: true }),
+    });
+  }
+  return pois;
+}
 
-    // Check for unhandled types
-    const unhandled = uniqueTypes.filter((t) => !POI_TYPES[t]);
-    if (unhandled.length > 0 && segmentNum !== undefined) {
-      console.log(`    Segment ${segmentNum}: unhandled amenity types: ${unhandled.join(', ')}`);
+/**
+ * One statement per tag key over nodes, ways and relations - hospitals, schools
+ * and churches are mostly mapped as building outlines. Values of a key share a
+ * regex, e.g. amenity~"^(hospital|school)$", to keep queries over many
+ * cells short
+ */
+function buildStatements(filter: string, categories: readonly POICategory[]): string[] {
+  const groups: Map<string, { key: string; named: boolean; values: string[] }> = new Map();
+  for (const category of categories) {
+    for (const tag of category.tags) {
+      const [key, value] = tag.split('=');
+      const named = !category.nameOptional;
+      const group = groups.get(`${key}|${named}`) || { key, named, values: [] };
+      group.values.push(value);
+      groups.set(`${key}|${named}`, group);
     }
-
-    const pois = elements
-      .filter((el: any) => el.tags?.name && POI_TYPES[el.tags.amenity])
-      .map((el: any) => {
-        const poiType = POI_TYPES[el.tags.amenity];
-        return {
-          id: el.id,
-          lat: el.lat,
-          lon: el.lon,
-          name: el.tags.name,
-          type: poiType.label,
-          iconType: poiType.iconType,
-          priority: poiType.priority,
-        };
-      })
-      .sort((a: POI, b: POI) => a.priority - b.priority); // Sort by priority (lower = more important)
-
-    // Return up to 10 so SVG renderer can pick best 3 after overlap filtering
-    return pois.slice(0, 10);
-  } catch (error) {
-    console.error('  Overpass API error:', (error as Error).message);
-    return [];
   }
+
+  return [...groups.values()].map(({ key, named, values }) => {
+    const match = values.length === 1 ? `["${key}"="${values[0]}"]` : `["${key}"~"^(${values.join('|')})$"]`;
+    return `  nwr${match}${named ? '["name"]' : ''}(${filter});`;
+  });
+}
+
+/**
+ * Drop ways and relations that are the same place as a node nearby, e.g. a
+ * hospital mapped both as a point and as its building
+ * The node is kept: it usually marks the entrance or main building, where the
+ * area's center may be in the middle of a campus
+ */
+function dropDuplicateAreas(pois: POI[]): POI[] {
+  const nodes = pois.filter(poi => poi.id.startsWith('node/'));
+  return pois.filter(poi => poi.id.startsWith('node/') || !nodes.some(node =>
+    node.iconType === poi.iconType &&
+    node.name.toLowerCase() === poi.name.toLowerCase() &&
+    haversineDistance(node.lat, node.lon, poi.lat, poi.lon) <= DISTANCE_THRESHOLDS.poiDuplicateDistance
+  ));
 }
 
 /**
- * Fetch POIs for all segments with batching and rate limiting
+ * The most important category whose tags the element has
  */
-export async function fetchPOIsForSegments(
-  segmentBounds: Bounds[]
-): Promise<POI[][]> {
-  console.log('Fetching POIs for segments...');
-
-  const allPOIs: POI[][] = [];
-  const batchSize = 3; // Process 3 segments at a time to respect rate limits
-  const totalBatches = Math.ceil(segmentBounds.length / batchSize);
-
-  for (let i = 0; i < segmentBounds.length; i += batchSize) {
-    const batch = segmentBounds.slice(i, i + batchSize);
-    const batchNum = Math.floor(i / batchSize) + 1;
-    console.log(`  Fetching batch ${batchNum}/${totalBatches} (${batch.length} segments)...`);
-
-    // Fetch POIs for this batch in parallel
-    const batchPromises = batch.map(async (bounds, batchIdx) => {
-      const segmentIdx = i + batchIdx;
-      console.log(`    Segment ${segmentIdx + 1}: fetching POIs...`);
-      const pois = await fetchPOIsInBounds(bounds, segmentIdx + 1);
-      console.log(`    Segment ${segmentIdx + 1}: ${pois.length} POIs found`);
-      return pois;
+function matchCategory(tags: Record<string, string>, categories: readonly POICategory[]): POICategory | undefined {
+  let best: POICategory | undefined;
+  for (const category of categories) {
+    const matches = category.tags.some(tag => {
+      const [key, value] = tag.split('=');
+      return tags[key] === value;
     });
+    if (matches && (!best || category.priority < best.priority)) best = category;
+  }
+  return best;
+}
 
-    const batchResults = await Promise.all(batchPromises);
-    allPOIs.push(...batchResults);
+/**
+ * Fetch POIs within API_CONFIG.poiCorridorMeters of the route, and give each
+ * segment the ones nearest to it, most important first
+ * Consecutive segments share one query per poiCorridorChunkMeters of route,
+ * covering the grid cells not already fetched; a segment whose query failed
+ * even after retries gets null
+ */
+export async function fetchPOIsAlongRoute(
+  segments: RouteSegment[],
+  categories: readonly POICategory[] = POI_CATEGORIES
+): Promise<Array<POI[] | null>> {
+  const chunks = chunkSegments(segments);
+  console.log(`Fetching POIs along the route (${chunks.length} ${chunks.length === 1 ? 'query' : 'queries'})...`);
 
-    // Rate limit between batches - 1 second delay
-    if (i + batchSize < segmentBounds.length) {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+  const failed = new Set<number>();
+  const results = await Promise.all(chunks.map(async (chunk, i) => {
+    const coordinates = chunk.flatMap(s => segments[s].coordinates);
+    try {
+      return await fetchPOIsInCells(corridorCells(coordinates), categories);
+    } catch (error) {
+      console.error(`    Corridor ${i + 1}: Overpass API error: ${(error as Error).message}`);
+      chunk.forEach(s => failed.add(s));
+      return [];
     }
-  }
+  }));
+
+  // Neighbouring chunks share the cells where they meet, so a POI can come back twice
+  const seen = new Set<string>();
+  const pois = results.flat().filter(poi => {
+    if (seen.has(poi.id)) return false;
+    seen.add(poi.id);
+    return true;
+  });
+
+  const segmentPOIs = assignToSegments(pois, segments);
+  return segmentPOIs.map((assigned, i) => {
+    if (failed.has(i)) return null;
+    // Up to 10 so the SVG renderer can pick the best 3 after overlap filtering
+    const top = assigned
+      .filter(a => a.offRoute <= API_CONFIG.poiCorridorMeters)
+      .sort((a, b) => a.poi.priority - b.poi.priority || a.offRoute - b.offRoute)
+      .slice(0, 10)
+      .map(a => a.poi);
+    console.log(`    Segment ${segments[i].index}: ${top.length} POIs found`);
+    return top;
+  });
+}
 
-  return allPOIs;
+/**
+ * Group consecutive segments into runs of about poiCorridorChunkMeters
+ */
+function chunkSegments(segments: RouteSegment[]): number[][] {
+  const chunks: number[][] = [];
+  let length = 0;
+  segments.forEach((segment, i) => {
+    if (chunks.length === 0 || length + segment.distance > API_CONFIG.poiCorridorChunkMeters) {
+      chunks.push([]);
+      length = 0;
+    }
+    chunks[chunks.length - 1].push(i);
+    length += segment.distance;
+  });
+  return chunks;
 }
 
+/**
+ * Give each POI to the segment passing closest to it
+ */
+function assignToSegments(pois: POI[], segments: RouteSegment[]): Array<Array<{ poi: POI; offRoute: number }>> {
+  const assigned: Array<Array<{ poi: POI; offRoute: number }>> = segments.map(() => []);
+  const points = segments.flatMap((segment, i) =>
+    densifyPath(segment.coordinates, API_CONFIG.poiCorridorPointSpacing).map(p => ({ coord: p.coord, segment: i }))
+  );
+  if (points.length === 0) return assigned;
+
+  for (const poi of pois) {
+    let best = { segment: 0, offRoute: Infinity };
+    for (const p of points) {
+      const offRoute = haversineDistance(poi.lat, poi.lon, p.coord[1], p.coord[0]);
+      if (offRoute < best.offRoute) best = { segment: p.segment, offRoute };
+    }
+    assigned[best.segment].push({ poi, offRoute: best.offRoute });
+  }
+  return assigned;
+}
@@ -0,0 +1,263 @@
+/**
+ * Routing provider abstraction
+ * Every backend returns our own Route/RouteStep types so the rest of the
+ * pipeline doesn't care which router produced the route.
+ */
+
+import { AvoidArea, Coordinate, Route, RouteLeg, RouteStep, RoutingProviderConfig } from '../types';
+import { loadRoutingProviders, ROUTE_CONFIG_PROCESSING } from '../config';
+import { calculatePathOverlap, haversineDistance } from '../utils/geo';
+import { chooseDetourPoints, findAreaCrossings } from '../processing/avoid';
+import { createOsrmProvider } from './osrm';
+import { createValhallaProvider } from './valhalla';
+import { createGraphHopperProvider } from './graphhopper';
+
+export interface RouteRequestOptions {
+  /** Number of alternative routes to request in addition to the primary route */
+  alternatives?: number;
+}
+
+export interface RoutingProvider {
+  /** Human-readable name used in logs */
+  name: string;
+  /**
+   * Route through the given points in order (at least start and end)
+   * Returns the primary route first, followed by any alternatives
+   */
+  fetchRoutes(waypoints: Coordinate[], options?: RouteRequestOptions): Promise<Route[]>;
+}
+
+/**
+ * Create a provider from its configuration
+ */
+export function createRoutingProvider(config: RoutingProviderConfig): RoutingProvider {
+  switch (config.type) {
+    case 'osrm':
+      return createOsrmProvider(config.baseUrl);
+    case 'valhalla':
+      return createValhallaProvider(config.baseUrl, config.apiKey);
+    case 'graphhopper':
+      return createGraphHopperProvider(config.baseUrl, config.apiKey);
+    default:
+      throw new Error(`Unknown routing provider: ${(config as RoutingProviderConfig).type}`);
+  }
+}
+
+/**
+ * Wrap several providers so each is tried in order until one succeeds
+ */
+export function createFailoverProvider(providers: RoutingProvider[]): RoutingProvider {
+  if (providers.length === 0) {
+    throw new Error('At least one routing provider is required');
+  }
+  if (providers.length === 1) {
+    return providers[0];
+  }
+
+  return {
+    name: providers.map(p => p.name).join(' → '),
+    async fetchRoutes(waypoints: Coordinate[], options?: RouteRequestOptions): Promise<Route[]> {
+      const errors: string[] = [];
+
+      for (const provider of providers) {
+        try {
+          return await provider.fetchRoutes(waypoints, options);
+        } catch (error) {
+          const message = (error as Error).message;
+          console.error(`  ${provider.name} failed: ${message}`);
+          errors.push(`${provider.name}: ${message}`);
+        }
+      }
+
+      throw new Error(`All routing providers failed:\n  ${errors.join('\n  ')}`);
+    },
+  };
+}
+
+/**
+ * Fetch a route from start to end, through any via points in order,
+ * using the configured providers. Each via point starts a new leg.
+ *
+ * Returns the primary route first, followed by up to `alternatives` routes
+ * that are distinct enough from the primary (and each other) to be useful
+ * as backup plans.
+ *
+ * Routes crossing an avoid area are dropped; if none stays clear, the primary
+ * is routed again through detour via points (without backup routes).
+ */
+export async function fetchRoute(
+  start: Coordinate,
+  end: Coordinate,
+  via: Coordinate[] = [],
+  alternatives: number = ROUTE_CONFIG_PROCESSING.maxAlternatives,
+  avoidAreas: AvoidArea[] = []
+): Promise<Route[]> {
+  const provider = createFailoverProvider(loadRoutingProviders().map(createRoutingProvider));
+  const stops = [start, ...via, end];
+  // Ask for extra candidates since some will be too similar to keep
+  const routes = await provider.fetchRoutes(stops, {
+    alternatives: alternatives > 0 ? alternatives + 1 : 0,
+  });
+  console.log(`Route provided by ${routes[0].provider}`);
+
+  let [primary, ...candidates] = routes;
+  if (avoidAreas.length > 0) {
+    const clear = routes.filter(route => findAreaCrossings(route.coordinates, avoidAreas).length === 0);
+    if (clear.length > 0) {
+      if (clear[0] !== primary) {
+        console.log('Main route crosses an avoid area - using an alternative that stays clear');
+      }
+      [primary, ...candidates] = clear;
+    } else {
+      primary = await routeAroundAreas(provider, stops, primary, avoidAreas);
+      candidates = [];
+    }
+  }
+
+  const kept = selectDistinctRoutes(primary, candidates, alternatives);
+  if (routes.length > 1) {
+    console.log(`Alternative routes: ${kept.length} kept of ${routes.length - 1} returned`);
+  }
+
+  return [primary, ...kept];
+}
+
+// A point the route is requested through: a stop, or a detour point added to avoid an area
+interface RoutePoint {
+  coord: Coordinate;
+  detour: boolean;
+}
+
+/**
+ * Add detour via points until the route stays out of every avoid area
+ * Areas are handled in the order the route reaches them: points either side of
+ * each are tried at growing distances, and the shortest route that clears it is
+ * kept. An area no detour clears is reported and left crossed
+ */
+async function routeAroundAreas(provider: RoutingProvider, stops: Coordinate[], route: Route, areas: AvoidArea[]): Promise<Route> {
+  const { avoidDetourMeters, avoidDetourAttempts } = ROUTE_CONFIG_PROCESSING;
+  let points: RoutePoint[] = stops.map(coord => ({ coord, detour: false }));
+  let current = route;
+  const unavoidable = new Set<AvoidArea>();
+
+  // A detour can lead into an area already cleared, so don't go round forever
+  for (let round = 0; round < areas.length * 2; round++) {
+    const crossing = findAreaCrossings(current.coordinates, areas).find(c => !unavoidable.has(c.area));
+    if (!crossing) break;
+    console.log(`Route crosses avoid area "${crossing.area.name}" - looking for a detour`);
+
+    let detour: { points: RoutePoint[]; route: Route } | undefined;
+    for (let attempt = 0; attempt < avoidDetourAttempts && !detour; attempt++) {
+      const offset = avoidDetourMeters * 2 ** attempt;
+      const options = await Promise.all(chooseDetourPoints(current.coordinates, crossing, offset, areas).map(async coord => {
+        const candidate = insertDetourPoint(points, current.coordinates, crossing.entryIndex, coord);
+        try {
+          const [detourRoute] = await provider.fetchRoutes(candidate.map(p => p.coord), { alternatives: 0 });
+          return { points: candidate, route: detourRoute };
+        } catch (error) {
+          console.error(`  Detour routing failed: ${(error as Error).message}`);
+          return undefined;
+        }
+      }));
+
+      detour = options
+        .filter((option): option is { points: RoutePoint[]; route: Route } =>
+          option !== undefined && findAreaCrossings(option.route.coordinates, [crossing.area]).length === 0)
+        .sort((a, b) => a.route.distance - b.route.distance)[0];
+    }
+
+    if (detour) {
+      points = detour.points;
+      current = mergeDetourLegs(detour.route, points);
+    } else {
+      console.error(`Warning: no way around avoid area "${crossing.area.name}" found - the route still passes through it`);
+      unavoidable.add(crossing.area);
+    }
+  }
+
+  const detours = points.filter(p => p.detour).length;
+  if (detours > 0) {
+    console.log(`Route rerouted through ${detours} detour point(s)`);
+  }
+  return current;
+}
+
+/**
+ * Insert a detour point between the route points either side of a crossing
+ * Each point is placed on the route by its nearest coordinate, in order
+ */
+function insertDetourPoint(points: RoutePoint[], coordinates: Array<[number, number]>, entryIndex: number, coord: Coordinate): RoutePoint[] {
+  let searchFrom = 0;
+  const indices = points.map(point => {
+    let best = searchFrom;
+    let bestDistance = Infinity;
+    for (let i = searchFrom; i < coordinates.length; i++) {
+      const distance = haversineDistance(point.coord.lat, point.coord.lon, coordinates[i][1], coordinates[i][0]);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    searchFrom = best;
+    return best;
+  });
+
+  const position = Math.min(Math.max(1, indices.filter(i => i <= entryIndex).length), points.length - 1);
+  return [...points.slice(0, position), { coord, detour: true }, ...points.slice(position)];
+}
+
+/**
+ * Join the legs either side of each detour point, so legs still run stop to stop
+ * The arrival at the detour point is dropped and the departure from it becomes a "continue"
+ */
+function mergeDetourLegs(route: Route, points: RoutePoint[]): Route {
+  const legs: RouteLeg[] = [];
+  route.legs.forEach((leg, i) => {
+    const previous = legs[legs.length - 1];
+    if (!previous || !points[i]?.detour) {
+      legs.push(leg);
+      return;
+    }
+
+    const arrived = previous.steps.filter((step, j) => !(j === previous.steps.length - 1 && step.instruction === 'arrive'));
+    const continued = leg.steps.map((step, j): RouteStep =>
+      j === 0 && step.instruction === 'depart' ? { ...step, instruction: 'continue', modifier: undefined } : step
+    );
+    legs[legs.length - 1] = {
+      distance: previous.distance + leg.distance,
+      duration: previous.duration + leg.duration,
+      steps: [...arrived, ...continued],
+    };
+  });
+
+  return { ...route, legs };
+}
+
+/**
+ * Keep alternatives that share less than the configured fraction of their
+ * length with the primary route and with every alternative already kept
+ */
+function selectDistinctRoutes(primary: Route, candidates: Route[], max: number): Route[] {
+  const kept: Route[] = [];
+  const { alternativeMaxOverlap } = ROUTE_CONFIG_PROCESSING;
+
+  for (const candidate of candidates) {
+    if (kept.length >= max) break;
+
+    const tooSimilar = [primary, ...kept].some(
+      other => calculatePathOverlap(candidate.coordinates, other.coordinates, ROUTE_CONFIG_PROCESSING.routeMatchToleranceMeters) > alternativeMaxOverlap
+    );
+    if (!tooSimilar) {
+      kept.push(candidate);
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Flatten the steps of all legs into a single list
+ */
+export function extractSteps(route: Route): RouteStep[] {
+  return route.legs.flatMap(leg => leg.steps);
+}
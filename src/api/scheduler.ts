@@ -0,0 +1,118 @@
+/**
+ * Per-host request scheduler shared by every API client
+ *
+ * Each host gets a queue that admits at most maxConcurrent requests at once
+ * and starts them at least minIntervalMs apart, so parallel lookups can't
+ * exceed a server's usage policy.
+ */
+
+import { API_CONFIG, API_MIRRORS, REQUEST_LIMITS } from '../config';
+import { formatDuration } from '../utils/format';
+
+interface RequestLimits {
+  maxConcurrent: number;
+  minIntervalMs: number;
+}
+
+interface HostQueue {
+  host: string;
+  limits: RequestLimits;
+  active: number;
+  waiting: Array<() => void>;
+  /** Earliest time the next request may start */
+  nextStart: number;
+  /** Running average of request time, for the ETA (ms) */
+  averageMs: number;
+  lastReport: number;
+}
+
+const queues: Map<string, HostQueue> = new Map();
+
+/**
+ * Run a request to the URL's host once the host's limits allow it
+ */
+export async function schedule<T>(url: string, send: () => Promise<T>): Promise<T> {
+  const host = new URL(url).hostname;
+  const queue = getQueue(host);
+
+  await acquire(queue);
+  const started = Date.now();
+  try {
+    return await send();
+  } finally {
+    queue.averageMs = queue.averageMs === 0
+      ? Date.now() - started
+      : queue.averageMs * 0.8 + (Date.now() - started) * 0.2;
+    release(queue);
+  }
+}
+
+function getQueue(host: string): HostQueue {
+  let queue = queues.get(host);
+  if (!queue) {
+    queue = { host, limits: getHostLimits(host), active: 0, waiting: [], nextStart: 0, averageMs: 0, lastReport: 0 };
+    queues.set(host, queue);
+  }
+  return queue;
+}
+
+function getHostLimits(host: string): RequestLimits {
+  const matches = (urls: readonly string[]) => urls.some(url => new URL(url).hostname === host);
+  if (matches(API_MIRRORS.nominatim)) return REQUEST_LIMITS.nominatim;
+  if (matches(API_MIRRORS.overpass)) return REQUEST_LIMITS.overpass;
+  return REQUEST_LIMITS.default;
+}
+
+/**
+ * Wait for a free slot, then for this request's start time
+ * Start times are reserved in order, so requests are spaced even when
+ * several slots free up together
+ */
+async function acquire(queue: HostQueue): Promise<void> {
+  if (queue.active < queue.limits.maxConcurrent) {
+    queue.active++;
+  } else {
+    // release() hands its slot straight to us
+    const slot = new Promise<void>(resolve => queue.waiting.push(resolve));
+    reportQueue(queue);
+    await slot;
+  }
+
+  const start = Math.max(Date.now(), queue.nextStart);
+  queue.nextStart = start + queue.limits.minIntervalMs;
+  if (start > Date.now()) {
+    await sleep(start - Date.now());
+  }
+}
+
+function release(queue: HostQueue): void {
+  const next = queue.waiting.shift();
+  if (next) {
+    reportQueue(queue);
+    next();
+  } else {
+    queue.active--;
+  }
+}
+
+/**
+ * Log how long a long queue will take to drain, at most every queueReportIntervalMs
+ */
+function reportQueue(queue: HostQueue): void {
+  const waiting = queue.waiting.length;
+  const now = Date.now();
+  if (waiting < API_CONFIG.queueReportThreshold || now - queue.lastReport < API_CONFIG.queueReportIntervalMs) return;
+
+  // No estimate until a request has finished, unless the interval sets the pace
+  const perRequestMs = Math.max(queue.limits.minIntervalMs, queue.averageMs / queue.limits.maxConcurrent);
+  if (perRequestMs === 0) return;
+
+  queue.lastReport = now;
+  const etaSeconds = (waiting * perRequestMs) / 1000;
+  const eta = etaSeconds < 60 ? `${Math.ceil(etaSeconds)}s` : formatDuration(etaSeconds);
+  console.log(`  ${queue.host}: ${waiting} requests queued, ~${eta} to go`);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,141 @@
+/**
+ * Map tile fetching with an on-disk cache
+ * Tiles are embedded as data URIs so the generated document works offline
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MAP_CONFIG } from '../config';
+import { getHttpMode, httpGetBinary } from './http';
+
+export interface TileStats {
+  /** Tiles served from the on-disk cache */
+  cached: number;
+  /** Tiles downloaded during this run */
+  downloaded: number;
+  /** Tiles that could not be fetched */
+  failed: number;
+  /** Total bytes of tile data embedded in the document */
+  embeddedBytes: number;
+}
+
+const stats: TileStats = { cached: 0, downloaded: 0, failed: 0, embeddedBytes: 0 };
+
+// In-flight requests, so overlapping maps don't download the same tile twice
+const pending: Map<string, Promise<Buffer | null>> = new Map();
+
+/**
+ * Build the URL for a tile from a server template
+ */
+export function buildTileUrl(serverUrl: string, z: number, x: number, y: number): string {
+  return serverUrl
+    .replace('{z}', z.toString())
+    .replace('{x}', x.toString())
+    .replace('{y}', y.toString());
+}
+
+/**
+ * Fetch a tile and return it as a base64 data URI
+ * Returns null if the tile is not cached and cannot be downloaded
+ */
+export async function fetchTileDataUri(serverUrl: string, z: number, x: number, y: number): Promise<string | null> {
+  const data = await fetchTile(serverUrl, z, x, y);
+  if (!data) return null;
+
+  const dataUri = `data:${getMimeType(serverUrl)};base64,${data.toString('base64')}`;
+  stats.embeddedBytes += dataUri.length;
+  return dataUri;
+}
+
+/**
+ * Fetch tile bytes, using the on-disk cache when available
+ */
+async function fetchTile(serverUrl: string, z: number, x: number, y: number): Promise<Buffer | null> {
+  const cachePath = getTileCachePath(serverUrl, z, x, y);
+
+  const inFlight = pending.get(cachePath);
+  if (inFlight) return inFlight;
+
+  const request = loadOrDownloadTile(serverUrl, cachePath, z, x, y);
+  pending.set(cachePath, request);
+  try {
+    return await request;
+  } finally {
+    pending.delete(cachePath);
+  }
+}
+
+async function loadOrDownloadTile(
+  serverUrl: string,
+  cachePath: string,
+  z: number,
+  x: number,
+  y: number
+): Promise<Buffer | null> {
+  // Recording and replaying go through the HTTP layer so the fixtures hold every tile
+  const mode = getHttpMode();
+  if (mode === 'live' && fs.existsSync(cachePath)) {
+    stats.cached++;
+    return fs.readFileSync(cachePath);
+  }
+
+  const url = buildTileUrl(serverUrl, z, x, y);
+
+  try {
+    const data = await httpGetBinary(url);
+
+    if (mode !== 'replay') {
+      fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+      fs.writeFileSync(cachePath, data);
+    }
+
+    stats.downloaded++;
+    return data;
+  } catch (error) {
+    console.error(`  Failed to fetch tile ${z}/${x}/${y}: ${(error as Error).message}`);
+    stats.failed++;
+    return null;
+  }
+}
+
+/**
+ * Cache location for a tile: {cacheDir}/{tileset}/{z}/{x}/{y}.{ext}
+ */
+function getTileCachePath(serverUrl: string, z: number, x: number, y: number): string {
+  const cacheRoot = path.join(__dirname, '..', '..', MAP_CONFIG.tileCacheDirectory);
+  return path.join(cacheRoot, getTileSetName(serverUrl), z.toString(), x.toString(), `${y}${getExtension(serverUrl)}`);
+}
+
+/**
+ * Derive a stable directory name for a tile server template
+ * e.g. ".../rastertiles/voyager_nolabels/{z}/{x}/{y}.png" -> "voyager_nolabels"
+ */
+function getTileSetName(serverUrl: string): string {
+  const match = serverUrl.match(/\/([^/]+)\/\{z\}/);
+  const name = match ? match[1] : new URL(serverUrl.replace(/\{[xyz]\}/g, '0')).hostname;
+  return name.replace(/[^a-zA-Z0-9_.-]/g, '_');
+}
+
+function getExtension(serverUrl: string): string {
+  const ext = path.extname(serverUrl.split('?')[0]);
+  return ext || '.png';
+}
+
+function getMimeType(serverUrl: string): string {
+  switch (getExtension(serverUrl)) {
+    case '.jpg':
+    case '.jpeg':
+      return 'image/jpeg';
+    case '.webp':
+      return 'image/webp';
+    default:
+      return 'image/png';
+  }
+}
+
+/**
+ * Get tile statistics for this run
+ */
+export function getTileStats(): TileStats {
+  return { ...stats };
+}
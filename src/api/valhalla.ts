@@ -0,0 +1,125 @@
+/**
+ * Valhalla routing provider (pedestrian costing)
+ */
+
+import { Coordinate, Route, RouteLeg, RouteStep, ValhallaLeg, ValhallaManeuver, ValhallaResponse, ValhallaTrip } from '../types';
+import { calculateWalkingDuration } from '../utils/format';
+import { decodePolyline } from '../utils/geo';
+import { httpPost } from './http';
+import { RouteRequestOptions, RoutingProvider } from './routing';
+
+// Valhalla maneuver type codes mapped to OSRM-style instruction/modifier pairs,
+// so step formatting and icons work the same for every provider
+const MANEUVER_TYPES: Record<number, { instruction: string; modifier?: string }> = {
+  1: { instruction: 'depart' },
+  2: { instruction: 'depart', modifier: 'right' },
+  3: { instruction: 'depart', modifier: 'left' },
+  4: { instruction: 'arrive' },
+  5: { instruction: 'arrive', modifier: 'right' },
+  6: { instruction: 'arrive', modifier: 'left' },
+  7: { instruction: 'new name', modifier: 'straight' },
+  8: { instruction: 'continue', modifier: 'straight' },
+  9: { instruction: 'turn', modifier: 'slight right' },
+  10: { instruction: 'turn', modifier: 'right' },
+  11: { instruction: 'turn', modifier: 'sharp right' },
+  12: { instruction: 'turn', modifier: 'uturn' },
+  13: { instruction: 'turn', modifier: 'uturn' },
+  14: { instruction: 'turn', modifier: 'sharp left' },
+  15: { instruction: 'turn', modifier: 'left' },
+  16: { instruction: 'turn', modifier: 'slight left' },
+  17: { instruction: 'on ramp', modifier: 'straight' },
+  18: { instruction: 'on ramp', modifier: 'right' },
+  19: { instruction: 'on ramp', modifier: 'left' },
+  20: { instruction: 'off ramp', modifier: 'right' },
+  21: { instruction: 'off ramp', modifier: 'left' },
+  22: { instruction: 'fork', modifier: 'straight' },
+  23: { instruction: 'fork', modifier: 'slight right' },
+  24: { instruction: 'fork', modifier: 'slight left' },
+  25: { instruction: 'merge', modifier: 'straight' },
+  26: { instruction: 'roundabout' },
+  27: { instruction: 'continue', modifier: 'straight' },
+  37: { instruction: 'merge', modifier: 'slight right' },
+  38: { instruction: 'merge', modifier: 'slight left' },
+};
+
+/**
+ * Create a Valhalla provider
+ * @param baseUrl Valhalla server URL, e.g. http://localhost:8002
+ */
+export function createValhallaProvider(baseUrl: string, apiKey?: string): RoutingProvider {
+  const name = `Valhalla (${baseUrl})`;
+
+  return {
+    name,
+    async fetchRoutes(waypoints: Coordinate[], options: RouteRequestOptions = {}): Promise<Route[]> {
+      // Valhalla only computes alternates for routes without via points
+      const alternates = options.alternatives && waypoints.length === 2 ? options.alternatives : 0;
+      const request = {
+        locations: waypoints.map(p => ({ lat: p.lat, lon: p.lon, type: 'break' })),
+        costing: 'pedestrian',
+        directions_options: { units: 'kilometers' },
+        ...(alternates > 0 ? { alternates } : {}),
+      };
+      const url = `${baseUrl.replace(/\/$/, '')}/route` + (apiKey ? `?api_key=${encodeURIComponent(apiKey)}` : '');
+
+      console.log(`Fetching route from ${name}...`);
+
+      const data = await httpPost<ValhallaResponse>(url, request);
+
+      const trip = data.trip;
+      if (!trip || trip.status !== 0) {
+        throw new Error(`Valhalla error: ${trip?.status_message || 'no trip returned'}`);
+      }
+
+      const alternateTrips = (data.alternates || []).map(a => a.trip);
+      return [trip, ...alternateTrips].map(t => convertValhallaTrip(t, name));
+    },
+  };
+}
+
+function convertValhallaTrip(trip: ValhallaTrip, provider: string): Route {
+  const legs = trip.legs.map(convertValhallaLeg);
+  const coordinates = legs.flatMap((leg, i) => {
+    // Legs share their boundary point - drop the duplicate
+    const coords = leg.coordinates;
+    return i === 0 ? coords : coords.slice(1);
+  });
+  const distance = trip.summary.length * 1000;
+
+  return {
+    distance,
+    duration: calculateWalkingDuration(distance),
+    coordinates,
+    legs: legs.map(leg => leg.leg),
+    provider,
+  };
+}
+
+function convertValhallaLeg(leg: ValhallaLeg): { leg: RouteLeg; coordinates: Array<[number, number]> } {
+  const coordinates = decodePolyline(leg.shape, 6);
+  const steps = leg.maneuvers.map(m => convertManeuver(m, coordinates));
+  const distance = leg.summary.length * 1000;
+
+  return {
+    leg: { distance, duration: calculateWalkingDuration(distance), steps },
+    coordinates,
+  };
+}
+
+function convertManeuver(maneuver: ValhallaManeuver, shape: Array<[number, number]>): RouteStep {
+  const mapped = MANEUVER_TYPES[maneuver.type] || { instruction: 'continue' };
+  const geometry = shape.slice(maneuver.begin_shape_index, maneuver.end_shape_index + 1);
+  const distance = maneuver.length * 1000;
+  const names = maneuver.street_names || [];
+
+  return {
+    instruction: mapped.instruction,
+    modifier: mapped.modifier,
+    name: names[0] || '',
+    ref: names.slice(1).join(', ') || undefined,
+    distance,
+    duration: calculateWalkingDuration(distance),
+    location: shape[maneuver.begin_shape_index],
+    geometry: geometry.length > 0 ? geometry : undefined,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Batch generation - one document per manifest route plus an index page
+ *
+ * Geocodes, POIs and map tiles are cached for the whole process, so routes
+ * that share areas reuse earlier results instead of fetching them again.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BatchIndexEntry, BatchManifest, BatchRoute } from './types';
+import { OUTPUT_CONFIG } from './config';
+import { buildDirectionsPlan } from './pipeline';
+import { resolveLocation } from './api/nominatim';
+import { getOutputFormat, parseOutputFormats } from './rendering/formats';
+import { generateBatchIndexHtml } from './rendering/html';
+
+/**
+ * Generate every route in the manifest into outputDir
+ * Returns the index entries; failed routes are included with their error
+ */
+export async function runBatch(manifest: BatchManifest, outputDir: string): Promise<BatchIndexEntry[]> {
+  fs.mkdirSync(outputDir, { recursive: true });
+  const entries: BatchIndexEntry[] = [];
+
+  for (let i = 0; i < manifest.routes.length; i++) {
+    const route = manifest.routes[i];
+    console.log(`\n=== [${i + 1}/${manifest.routes.length}] ${route.title || route.id} ===\n`);
+
+    try {
+      entries.push(await generateBatchRoute(route, manifest, outputDir));
+    } catch (error) {
+      const message = (error as Error).message;
+      console.error(`Failed to generate ${route.id}: ${message}`);
+      entries.push({ id: route.id, title: route.title || route.id, from: route.from.name, to: route.to.name, error: message });
+    }
+  }
+
+  const indexPath = path.join(outputDir, 'index.html');
+  fs.writeFileSync(indexPath, generateBatchIndexHtml(entries, manifest.defaults));
+  console.log(`\nIndex written to: ${indexPath}`);
+
+  return entries;
+}
+
+async function generateBatchRoute(route: BatchRoute, manifest: BatchManifest, outputDir: string): Promise<BatchIndexEntry> {
+  const settings = { ...manifest.defaults, ...route };
+  const formats = parseOutputFormats(settings.format || OUTPUT_CONFIG.defaultFormat);
+
+  const config = {
+    start: await resolveLocation(route.from, `${route.id} from`),
+    end: await resolveLocation(route.to, `${route.id} to`),
+    via: await Promise.all((route.via || []).map((v, i) => resolveLocation(v, `${route.id} via ${i + 1}`))),
+  };
+
+  const plan = await buildDirectionsPlan(
+    config,
+    {
+      stepsPerSegment: settings.stepsPerSegment,
+      segmentStrategy: settings.segmentStrategy,
+      alternatives: settings.alternatives,
+      returnTrip: settings.returnTrip,
+      units: settings.units,
+      lang: settings.lang,
+      poiCategories: settings.poiCategories,
+      avoidAreas: settings.avoidAreas,
+      pace: settings.pace,
+    }
+  );
+
+  // The index links to the first format's file
+  const filenames: string[] = [];
+  for (const format of formats) {
+    const renderer = getOutputFormat(format);
+    const filename = `${route.id}${renderer.extension}`;
+    fs.writeFileSync(path.join(outputDir, filename), await renderer.render(plan));
+    console.log(`Output written to: ${path.join(outputDir, filename)}`);
+    filenames.push(filename);
+  }
+
+  return {
+    id: route.id,
+    title: route.title || route.id,
+    from: route.from.name,
+    to: route.to.name,
+    file: filenames[0],
+    distance: plan.route.distance,
+    duration: plan.route.duration,
+  };
+}
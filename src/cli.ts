@@ -0,0 +1,534 @@
+/**
+ * Command-line interface
+ *
+ * Flags override .env values; anything not given on the command line
+ * falls back to the environment.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Coordinate, Location, LocationInput, RouteConfig, SegmentationStrategy, UnitSystem } from './types';
+import {
+  HTTP_CONFIG,
+  OUTPUT_CONFIG,
+  PACE_PROFILES,
+  POI_CATEGORIES,
+  ROUTE_CONFIG_PROCESSING,
+  SEGMENTATION_STRATEGIES,
+  UNIT_SYSTEMS,
+  loadLocationFromEnv,
+  loadPOICategories,
+  loadPaceProfile,
+  loadRoutingProviders,
+  loadViaPoints,
+} from './config';
+import { fetchPlaceName, extractLocationName, geocodeAddress, resolveLocation } from './api/nominatim';
+import { getTileStats } from './api/tiles';
+import { configureHttp, getFixtureDirectory, getHttpMode, parseHttpMode } from './api/http';
+import { buildDirectionsPlan } from './pipeline';
+import { loadAvoidAreas } from './processing/avoid';
+import { loadManifest } from './manifest';
+import { runBatch } from './batch';
+import { OUTPUT_FORMATS, getOutputFormat, parseOutputFormats } from './rendering/formats';
+import { formatBytes, formatDistance } from './utils/format';
+import { LOCALES, parseLanguages } from './i18n';
+
+export interface ParsedArgs {
+  command: string;
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+// Flags that take no value
+const BOOLEAN_FLAGS = new Set(['help', 'return-trip']);
+
+// Flags that take a value
+const VALUE_FLAGS = new Set([
+  'from', 'from-name', 'from-address', 'to', 'to-name', 'to-address',
+  'steps-per-segment', 'segment-strategy', 'units', 'lang', 'poi-categories', 'avoid', 'pace',
+  'out', 'format', 'out-dir', 'record', 'replay',
+]);
+
+const USAGE = `Usage: emergency-directions <command> [options]
+
+Commands:
+  generate           Generate directions (default)
+  geocode <lat,lon>  Look up the place name and address for coordinates
+  geocode <address>  Look up the coordinates for an address
+  validate-config    Check configuration from .env and flags without fetching anything
+  batch <manifest>   Generate every route in a JSON/YAML manifest, plus an index page
+
+Generate options:
+  --from <lat,lon>            Start coordinates (default: START_LAT/START_LON, or geocoded from the address)
+  --from-name <name>          Start name (default: looked up from coordinates)
+  --from-address <address>    Start address (default: looked up from coordinates); alone, it is geocoded
+  --to <lat,lon>              End coordinates (default: END_LAT/END_LON, or geocoded from the address)
+  --to-name <name>            End name (default: looked up from coordinates)
+  --to-address <address>      End address (default: looked up from coordinates); alone, it is geocoded
+  --steps-per-segment <n>     Steps per segment (default: STEPS_PER_SEGMENT)
+  --segment-strategy <name>   Segmentation: ${SEGMENTATION_STRATEGIES.join(', ')} (default: SEGMENT_STRATEGY)
+  --return-trip               Also route end → start and append a return section (default: RETURN_TRIP)
+  --units <system>            Distances in ${UNIT_SYSTEMS.join(', ')} (default: UNITS)
+  --lang <code>[,<code>]      Language: ${LOCALES.join(', ')}; two codes for bilingual output (default: DIRECTIONS_LANG)
+  --poi-categories <ids>      Points of interest to show, most important first: ${POI_CATEGORIES.map(c => c.id).join(', ')}
+                              (default: POI_CATEGORIES, or all)
+  --avoid <file>[,...]        GeoJSON polygons to route around, e.g. flood zones or a closed bridge (default: AVOID_AREAS)
+  --pace <profile>            Walking pace: ${PACE_PROFILES.map(p => p.id).join(', ')} (default: PACE_PROFILE, or fit-adult)
+  --out <path>                Output file (default: ${OUTPUT_CONFIG.directory}/${OUTPUT_CONFIG.basename}.<format>)
+  --format <format>[,...]     Output formats: ${Object.keys(OUTPUT_FORMATS).join(', ')} (default: ${OUTPUT_CONFIG.defaultFormat})
+                              With several formats, --out sets the path and each format its extension
+
+Batch options:
+  --out-dir <dir>             Output directory (default: ${OUTPUT_CONFIG.directory}/<manifest name>)
+
+Options:
+  --record <dir>              Save every API response to <dir> (default: HTTP_MODE=record, HTTP_FIXTURES)
+  --replay <dir>              Use only responses saved by --record, without the network (default: HTTP_MODE=replay)
+  -h, --help                  Show this help
+`;
+
+/**
+ * Parse argv (without node and script path) into a command, positionals and flags
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-h') {
+      flags.help = true;
+    } else if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      const name = eq >= 0 ? arg.slice(2, eq) : arg.slice(2);
+      if (!BOOLEAN_FLAGS.has(name) && !VALUE_FLAGS.has(name)) {
+        throw new Error(`Unknown option: --${name}`);
+      }
+
+      if (eq >= 0) {
+        flags[name] = arg.slice(eq + 1);
+      } else if (BOOLEAN_FLAGS.has(name)) {
+        flags[name] = true;
+      } else {
+        const value = argv[i + 1];
+        if (value === undefined || value.startsWith('--')) {
+          throw new Error(`Missing value for --${name}`);
+        }
+        flags[name] = value;
+        i++;
+      }
+    } else if (arg.startsWith('-') && arg.length > 1 && !/^-\d/.test(arg)) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  const command = positionals.length > 0 ? positionals.shift()! : 'generate';
+  return { command, positionals, flags };
+}
+
+/**
+ * Run the CLI and return the process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    return 1;
+  }
+
+  if (args.flags.help || args.command === 'help') {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    configureHttpFromArgs(args);
+
+    switch (args.command) {
+      case 'generate':
+        return await generateCommand(args);
+      case 'geocode':
+        return await geocodeCommand(args);
+      case 'validate-config':
+        return await validateConfigCommand(args);
+      case 'batch':
+        return await batchCommand(args);
+      default:
+        console.error(`Unknown command: ${args.command}\n`);
+        console.error(USAGE);
+        return 1;
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    return 1;
+  }
+}
+
+async function generateCommand(args: ParsedArgs): Promise<number> {
+  const startTime = Date.now();
+  console.log('=== Emergency Walking Directions Generator ===\n');
+
+  const formats = parseOutputFormats(getStringFlag(args, 'format') || OUTPUT_CONFIG.defaultFormat);
+  const stepsPerSegment = parseStepsPerSegment(args);
+  const segmentStrategy = parseSegmentStrategy(args);
+  const units = parseUnits(args);
+  const lang = parseLang(args);
+  const poiCategories = parsePOICategories(args);
+  const avoidAreas = parseAvoidAreas(args);
+  const pace = parsePace(args);
+  const config = await resolveRouteConfig(args);
+
+  const returnTrip = args.flags['return-trip'] === true ? true : undefined;
+  const plan = await buildDirectionsPlan(config, { stepsPerSegment, segmentStrategy, returnTrip, units, lang, poiCategories, avoidAreas, pace });
+
+  const outputs: Array<{ extension: string; output: string | Buffer }> = [];
+  for (const format of formats) {
+    console.log(`\nRendering ${format.toUpperCase()}...`);
+    const renderer = getOutputFormat(format);
+    outputs.push({ extension: renderer.extension, output: await renderer.render(plan) });
+  }
+
+  const tileStats = getTileStats();
+  if (tileStats.cached + tileStats.downloaded + tileStats.failed > 0) {
+    console.log(`Map tiles: ${tileStats.cached} cached, ${tileStats.downloaded} downloaded, ${tileStats.failed} failed`);
+    console.log(`Embedded tile data: ${formatBytes(tileStats.embeddedBytes)}`);
+  }
+
+  console.log('');
+  for (const { extension, output } of outputs) {
+    const outputPath = resolveOutputPath(getStringFlag(args, 'out'), extension, outputs.length > 1);
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, output);
+    console.log(`Output written to: ${outputPath}`);
+  }
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`Total time: ${elapsed}s`);
+  return 0;
+}
+
+async function geocodeCommand(args: ParsedArgs): Promise<number> {
+  if (args.positionals.length === 0) {
+    console.error('Usage: emergency-directions geocode <lat,lon|address>');
+    return 1;
+  }
+
+  const query = args.positionals.join(' ');
+  if (!looksLikeCoordinate(query)) {
+    const match = await geocodeAddress(query);
+    console.log(`Coordinates: ${match.lat},${match.lon}`);
+    console.log(`Address:     ${match.displayName}`);
+    return 0;
+  }
+
+  const coord = parseCoordinate(args.positionals.join(','), 'geocode');
+  const data = await fetchPlaceName(coord.lat, coord.lon);
+  if (!data) {
+    console.error(`No result for ${coord.lat},${coord.lon}`);
+    return 1;
+  }
+
+  console.log(`Name:    ${extractLocationName(data)}`);
+  console.log(`Address: ${data.display_name || 'Unknown'}`);
+  return 0;
+}
+
+async function batchCommand(args: ParsedArgs): Promise<number> {
+  const manifestPath = args.positionals[0];
+  if (!manifestPath) {
+    console.error('Usage: emergency-directions batch <manifest.json|manifest.yaml> [--out-dir <dir>]');
+    return 1;
+  }
+
+  const startTime = Date.now();
+  const manifest = loadManifest(manifestPath);
+  const outDir = getStringFlag(args, 'out-dir');
+  const outputDir = outDir
+    ? path.resolve(outDir)
+    : path.join(__dirname, '..', OUTPUT_CONFIG.directory, path.basename(manifestPath, path.extname(manifestPath)));
+
+  console.log(`=== Batch: ${manifest.routes.length} routes from ${manifestPath} ===`);
+  const entries = await runBatch(manifest, outputDir);
+
+  const tileStats = getTileStats();
+  console.log(`Map tiles: ${tileStats.cached} cached, ${tileStats.downloaded} downloaded, ${tileStats.failed} failed`);
+  console.log(`Embedded tile data: ${formatBytes(tileStats.embeddedBytes)}`);
+
+  const failed = entries.filter(e => e.error);
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`\n${entries.length - failed.length}/${entries.length} routes generated in ${elapsed}s`);
+  return failed.length > 0 ? 1 : 0;
+}
+
+async function validateConfigCommand(args: ParsedArgs): Promise<number> {
+  const errors: string[] = [];
+
+  const check = <T>(label: string, fn: () => T): T | undefined => {
+    try {
+      return fn();
+    } catch (error) {
+      errors.push(`${label}: ${(error as Error).message}`);
+      return undefined;
+    }
+  };
+
+  const format = getStringFlag(args, 'format') || OUTPUT_CONFIG.defaultFormat;
+  check('Output format', () => parseOutputFormats(format));
+  const stepsPerSegment = check('Steps per segment', () => parseStepsPerSegment(args));
+  const segmentStrategy = check('Segment strategy', () => parseSegmentStrategy(args));
+  const units = check('Units', () => parseUnits(args));
+  const lang = check('Language', () => parseLang(args));
+  const poiCategories = check('POI categories', () => loadPOICategories(parsePOICategories(args)));
+  const avoidAreas = check('Avoid areas', () => loadAvoidAreas(parseAvoidAreas(args)));
+  const paceProfile = check('Pace', () => loadPaceProfile(parsePace(args)));
+  const providers = check('Routing providers', () => loadRoutingProviders());
+  // Don't reverse-geocode here - only check what's been provided
+  const start = check('Start', () => resolveEndpointOffline(args, 'from', 'START'));
+  const end = check('End', () => resolveEndpointOffline(args, 'to', 'END'));
+  const via = check('Via points', () => loadViaPoints());
+
+  for (const [label, loc] of [['Start', start], ['End', end], ...(via || []).map((v, i) => [`Via ${i + 1}`, v])] as Array<[string, LocationInput | undefined]>) {
+    if (loc && hasCoordinates(loc) && !isValidCoordinate(loc)) {
+      errors.push(`${label}: coordinates out of range (${loc.lat}, ${loc.lon})`);
+    }
+  }
+
+  if (start) console.log(`Start:     ${describeLocation(start)}`);
+  (via || []).forEach((v, i) => console.log(`Via ${i + 1}:     ${describeLocation(v)}`));
+  if (end) console.log(`End:       ${describeLocation(end)}`);
+  if (segmentStrategy !== undefined) console.log(`Segments:  ${describeSegmentation(segmentStrategy, stepsPerSegment, units)}`);
+  if (providers) console.log(`Routing:   ${providers.map(p => `${p.type} (${p.baseUrl})`).join(' → ')}`);
+  console.log(`Output:    ${format}`);
+  if (units) console.log(`Units:     ${units}`);
+  if (lang) console.log(`Language:  ${lang}`);
+  if (poiCategories) console.log(`POIs:      ${poiCategories.map(c => c.id).join(', ')}`);
+  if (avoidAreas && avoidAreas.length > 0) console.log(`Avoid:     ${[...new Set(avoidAreas.map(a => a.name))].join(', ')}`);
+  if (paceProfile) console.log(`Pace:      ${paceProfile.label}, ${paceProfile.hoursPerDay} h/day`);
+  console.log(`HTTP:      ${describeHttpMode()}`);
+
+  if (errors.length > 0) {
+    console.error(`\nConfiguration has ${errors.length} problem(s):`);
+    errors.forEach(e => console.error(`  - ${e}`));
+    return 1;
+  }
+
+  console.log('\nConfiguration OK');
+  return 0;
+}
+
+/**
+ * Build route config from flags, falling back to .env
+ */
+async function resolveRouteConfig(args: ParsedArgs): Promise<RouteConfig> {
+  const via = loadViaPoints();
+  return {
+    start: await resolveEndpoint(args, 'from', 'START'),
+    end: await resolveEndpoint(args, 'to', 'END'),
+    via: await Promise.all(via.map((v, i) => resolveLocation(v, `Via ${i + 1}`))),
+  };
+}
+
+/**
+ * Resolve an endpoint from --from/--to, geocoding an address given without
+ * coordinates and looking up a missing name/address from the coordinates
+ */
+async function resolveEndpoint(args: ParsedArgs, flag: 'from' | 'to', envPrefix: 'START' | 'END'): Promise<Location> {
+  const location = await resolveLocation(resolveEndpointOffline(args, flag, envPrefix), flag === 'from' ? 'Start' : 'End');
+  if (location.name && location.address) return location;
+
+  const data = await fetchPlaceName(location.lat, location.lon);
+  return {
+    ...location,
+    name: location.name || extractLocationName(data),
+    address: location.address || data?.display_name || `${location.lat}, ${location.lon}`,
+  };
+}
+
+/**
+ * Resolve an endpoint without network access; name/address may be empty
+ * if coordinates came from the command line without them, and coordinates
+ * are missing if only an address was given
+ */
+function resolveEndpointOffline(args: ParsedArgs, flag: 'from' | 'to', envPrefix: 'START' | 'END'): LocationInput {
+  const coordValue = getStringFlag(args, flag);
+  const address = getStringFlag(args, `${flag}-address`);
+  if (!coordValue && address) {
+    return { name: getStringFlag(args, `${flag}-name`) || '', address };
+  }
+  if (!coordValue) {
+    return loadLocationFromEnv(envPrefix);
+  }
+
+  const coord = parseCoordinate(coordValue, `--${flag}`);
+  return {
+    ...coord,
+    name: getStringFlag(args, `${flag}-name`) || '',
+    address: getStringFlag(args, `${flag}-address`) || '',
+  };
+}
+
+function parseCoordinate(value: string, label: string): Coordinate {
+  const parts = value.split(',').map(p => parseFloat(p.trim()));
+  if (parts.length !== 2 || parts.some(isNaN)) {
+    throw new Error(`${label} must be "lat,lon", got: ${value}`);
+  }
+  const coord = { lat: parts[0], lon: parts[1] };
+  if (!isValidCoordinate(coord)) {
+    throw new Error(`${label} coordinates out of range: ${value}`);
+  }
+  return coord;
+}
+
+// "lat,lon" rather than an address (which may also contain digits and commas)
+function looksLikeCoordinate(value: string): boolean {
+  return /^\s*-?\d+(\.\d+)?\s*[, ]\s*-?\d+(\.\d+)?\s*$/.test(value);
+}
+
+function hasCoordinates(loc: LocationInput): loc is Location {
+  return loc.lat !== undefined && loc.lon !== undefined;
+}
+
+function isValidCoordinate(coord: Coordinate): boolean {
+  return Math.abs(coord.lat) <= 90 && Math.abs(coord.lon) <= 180;
+}
+
+function parseStepsPerSegment(args: ParsedArgs): number {
+  const value = getStringFlag(args, 'steps-per-segment');
+  const steps = value !== undefined ? Number(value) : ROUTE_CONFIG_PROCESSING.stepsPerSegment;
+  if (!Number.isInteger(steps) || steps < 1 || value?.trim() === '') {
+    throw new Error(`steps per segment must be a positive integer, got: ${value ?? steps}`);
+  }
+  return steps;
+}
+
+function parseSegmentStrategy(args: ParsedArgs): SegmentationStrategy {
+  const value = getStringFlag(args, 'segment-strategy') || ROUTE_CONFIG_PROCESSING.segmentStrategy;
+  if (!SEGMENTATION_STRATEGIES.includes(value as SegmentationStrategy)) {
+    throw new Error(`segment strategy must be one of ${SEGMENTATION_STRATEGIES.join(', ')}, got: ${value}`);
+  }
+  const { segmentMinMeters, segmentMaxMeters } = ROUTE_CONFIG_PROCESSING;
+  if (value === 'hybrid' && segmentMinMeters > segmentMaxMeters) {
+    throw new Error(`SEGMENT_MIN_METERS (${segmentMinMeters}) must not exceed SEGMENT_MAX_METERS (${segmentMaxMeters}) for the hybrid strategy`);
+  }
+  return value as SegmentationStrategy;
+}
+
+function parseUnits(args: ParsedArgs): UnitSystem {
+  const value = getStringFlag(args, 'units') || OUTPUT_CONFIG.units;
+  if (!UNIT_SYSTEMS.includes(value as UnitSystem)) {
+    throw new Error(`units must be one of ${UNIT_SYSTEMS.join(', ')}, got: ${value}`);
+  }
+  return value as UnitSystem;
+}
+
+/**
+ * Validated language setting, kept as "primary[,secondary]" for the plan options
+ */
+function parseLang(args: ParsedArgs): string {
+  const { lang, secondaryLang } = parseLanguages(getStringFlag(args, 'lang') || OUTPUT_CONFIG.lang);
+  return secondaryLang ? `${lang},${secondaryLang}` : lang;
+}
+
+/**
+ * Validated POI category list, kept as comma-separated ids for the plan options
+ */
+function parsePOICategories(args: ParsedArgs): string | undefined {
+  const value = getStringFlag(args, 'poi-categories') || process.env.POI_CATEGORIES;
+  if (!value) return undefined;
+  return loadPOICategories(value).map(c => c.id).join(',');
+}
+
+/**
+ * Validated pace profile id for the plan options
+ */
+function parsePace(args: ParsedArgs): string | undefined {
+  const value = getStringFlag(args, 'pace');
+  if (!value) return undefined;
+  return loadPaceProfile(value).id;
+}
+
+/**
+ * Avoid area files, resolved to absolute paths for the plan options
+ */
+function parseAvoidAreas(args: ParsedArgs): string | undefined {
+  const value = getStringFlag(args, 'avoid') || process.env.AVOID_AREAS;
+  if (!value) return undefined;
+  return value.split(',').map(s => s.trim()).filter(Boolean).map(file => path.resolve(file)).join(',');
+}
+
+function describeSegmentation(strategy: SegmentationStrategy, stepsPerSegment: number | undefined, units: UnitSystem | undefined): string {
+  const c = ROUTE_CONFIG_PROCESSING;
+  switch (strategy) {
+    case 'distance':
+      return `distance, ~${formatDistance(c.segmentTargetMeters, units)} each`;
+    case 'time':
+      return `time, ~${c.segmentTargetMinutes} min walking each`;
+    case 'hybrid':
+      return `hybrid, ${stepsPerSegment} steps within ${formatDistance(c.segmentMinMeters, units)} - ${formatDistance(c.segmentMaxMeters, units)}`;
+    default:
+      return `${stepsPerSegment} steps each`;
+  }
+}
+
+/**
+ * Output path for one format; when writing several formats, --out's
+ * extension is replaced by each format's own
+ */
+function resolveOutputPath(out: string | undefined, extension: string, replaceExtension = false): string {
+  if (out) {
+    const resolved = path.resolve(out);
+    return replaceExtension ? resolved.slice(0, resolved.length - path.extname(resolved).length) + extension : resolved;
+  }
+  return path.join(__dirname, '..', OUTPUT_CONFIG.directory, `${OUTPUT_CONFIG.basename}${extension}`);
+}
+
+/**
+ * Apply --record/--replay, falling back to HTTP_MODE and HTTP_FIXTURES
+ */
+function configureHttpFromArgs(args: ParsedArgs): void {
+  const record = getStringFlag(args, 'record');
+  const replay = getStringFlag(args, 'replay');
+  if (record && replay) {
+    throw new Error('Use either --record or --replay, not both');
+  }
+
+  if (record) {
+    configureHttp('record', record);
+  } else if (replay) {
+    configureHttp('replay', replay);
+  } else {
+    configureHttp(parseHttpMode(HTTP_CONFIG.mode), HTTP_CONFIG.fixtureDirectory);
+  }
+
+  if (getHttpMode() !== 'live') {
+    console.log(`HTTP ${describeHttpMode()}\n`);
+  }
+}
+
+function describeHttpMode(): string {
+  switch (getHttpMode()) {
+    case 'record':
+      return `recording to ${getFixtureDirectory()}`;
+    case 'replay':
+      return `replaying from ${getFixtureDirectory()}`;
+    default:
+      return 'live';
+  }
+}
+
+function getStringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function describeLocation(loc: LocationInput): string {
+  const label = [loc.name, loc.address].filter(Boolean).join(', ');
+  const coords = hasCoordinates(loc) ? `${loc.lat}, ${loc.lon}` : 'coordinates geocoded from address at generation';
+  return `${label || '(name looked up at generation)'} [${coords}]`;
+}
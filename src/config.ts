@@ -3,6 +3,7 @@
  */
 
 import * as dotenv from 'dotenv';
+import { Coordinate, HttpMode, LocationInput, PaceProfile, POICategory, RouteConfigInput, RoutingProviderConfig, RoutingProviderType, SegmentationStrategy, UnitSystem } from './types';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -30,29 +31,147 @@ function requireNumericEnv(key: string): number {
   return num;
 }
 
-// Route endpoints (loaded from environment)
-export const ROUTE_CONFIG = {
-  start: {
-    lat: requireNumericEnv('START_LAT'),
-    lon: requireNumericEnv('START_LON'),
-    name: requireEnv('START_NAME'),
-    address: requireEnv('START_ADDRESS'),
-  },
-  end: {
-    lat: requireNumericEnv('END_LAT'),
-    lon: requireNumericEnv('END_LON'),
-    name: requireEnv('END_NAME'),
-    address: requireEnv('END_ADDRESS'),
-  },
-};
+/**
+ * Optional numeric environment variable, non-negative (or positive) and
+ * optionally whole; the fallback is used when unset
+ */
+function optionalNumericEnv(key: string, fallback: number, options: { integer?: boolean; positive?: boolean } = {}): number {
+  const value = process.env[key];
+  if (value === undefined || value.trim() === '') return fallback;
+  const num = Number(value);
+  if (!Number.isFinite(num) || (options.integer && !Number.isInteger(num)) || (options.positive ? num <= 0 : num < 0)) {
+    const kind = `${options.positive ? 'a positive' : 'a non-negative'} ${options.integer ? 'integer' : 'number'}`;
+    throw new Error(`Environment variable ${key} must be ${kind}, got: ${value}`);
+  }
+  return num;
+}
+
+/**
+ * {PREFIX}_LAT and {PREFIX}_LON, or nothing when only {PREFIX}_ADDRESS is
+ * given - the coordinates are then geocoded from the address
+ */
+function loadCoordinatesFromEnv(prefix: string): Partial<Coordinate> {
+  const hasCoordinates = process.env[`${prefix}_LAT`] !== undefined || process.env[`${prefix}_LON`] !== undefined;
+  if (!hasCoordinates && process.env[`${prefix}_ADDRESS`]) {
+    return {};
+  }
+  return {
+    lat: requireNumericEnv(`${prefix}_LAT`),
+    lon: requireNumericEnv(`${prefix}_LON`),
+  };
+}
+
+/**
+ * Load a route endpoint from {PREFIX}_LAT, {PREFIX}_LON, {PREFIX}_NAME, {PREFIX}_ADDRESS
+ */
+export function loadLocationFromEnv(prefix: 'START' | 'END'): LocationInput {
+  return {
+    ...loadCoordinatesFromEnv(prefix),
+    name: requireEnv(`${prefix}_NAME`),
+    address: requireEnv(`${prefix}_ADDRESS`),
+  };
+}
+
+/**
+ * Load numbered via points (VIA_1_LAT, VIA_1_LON, VIA_1_NAME, VIA_1_ADDRESS, VIA_2_...)
+ * Stops at the first number with neither coordinates nor an address
+ */
+export function loadViaPoints(): LocationInput[] {
+  const via: LocationInput[] = [];
+  for (let i = 1; process.env[`VIA_${i}_LAT`] !== undefined || process.env[`VIA_${i}_ADDRESS`] !== undefined; i++) {
+    const prefix = `VIA_${i}`;
+    via.push({
+      ...loadCoordinatesFromEnv(prefix),
+      name: requireEnv(`${prefix}_NAME`),
+      address: process.env[`${prefix}_ADDRESS`] || '',
+    });
+  }
+  return via;
+}
+
+/**
+ * Load route endpoints from the environment
+ * Evaluated on demand (not at import) so commands that don't need a route,
+ * and command-line overrides, work without a complete .env
+ */
+export function loadRouteConfig(): RouteConfigInput {
+  return {
+    start: loadLocationFromEnv('START'),
+    end: loadLocationFromEnv('END'),
+    via: loadViaPoints(),
+  };
+}
 
 // API endpoints
 export const API_ENDPOINTS = {
   osrmFoot: 'https://routing.openstreetmap.de/routed-foot/route/v1/foot',
-  osrmFallback: 'https://router.project-osrm.org/route/v1/driving',
-  nominatim: 'https://nominatim.openstreetmap.org/reverse',
+  nominatim: 'https://nominatim.openstreetmap.org',
+  overpass: 'https://overpass.kumi.systems/api/interpreter',
+  overpassFallback: 'https://overpass-api.de/api/interpreter',
 } as const;
 
+/**
+ * Parse a comma-separated list of URLs, e.g. OVERPASS_URLS
+ */
+function parseUrlList(value: string | undefined, defaults: string[]): string[] {
+  const urls = (value || '').split(',').map(s => s.trim().replace(/\/$/, '')).filter(Boolean);
+  return urls.length > 0 ? urls : defaults;
+}
+
+// Servers tried in turn when a request fails, preferred first (env overrides, e.g. a self-hosted instance)
+export const API_MIRRORS = {
+  /** Nominatim base URLs; /reverse and /search are appended */
+  nominatim: parseUrlList(process.env.NOMINATIM_URLS, [API_ENDPOINTS.nominatim]),
+  /** Overpass interpreter URLs - the first is a mirror that's often less loaded */
+  overpass: parseUrlList(process.env.OVERPASS_URLS, [API_ENDPOINTS.overpass, API_ENDPOINTS.overpassFallback]),
+};
+
+// Base URLs for each routing provider (env overrides, e.g. a self-hosted osrm-backend)
+const ROUTING_URLS: Record<RoutingProviderType, string> = {
+  osrm: process.env.OSRM_URL || API_ENDPOINTS.osrmFoot,
+  valhalla: process.env.VALHALLA_URL || 'https://valhalla1.openstreetmap.de',
+  graphhopper: process.env.GRAPHHOPPER_URL || 'https://graphhopper.com/api/1',
+};
+
+// OSRM profiles that route for people on foot - the URL's last path part
+const OSRM_WALKING_PROFILES = ['foot', 'walking', 'walk', 'pedestrian'];
+
+const ROUTING_API_KEYS: Partial<Record<RoutingProviderType, string>> = {
+  valhalla: process.env.VALHALLA_API_KEY,
+  graphhopper: process.env.GRAPHHOPPER_API_KEY,
+};
+
+/**
+ * Parse ROUTING_PROVIDERS (comma-separated, in failover order)
+ * Providers are tried in order; later ones are used only if earlier ones fail.
+ * Defaults to the OSRM foot router with Valhalla (pedestrian) as fallback -
+ * never a car router, which could send walkers along expressways
+ */
+export function loadRoutingProviders(value: string | undefined = process.env.ROUTING_PROVIDERS): RoutingProviderConfig[] {
+  const types = (value || 'osrm,valhalla').split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+
+  return types.map(type => {
+    if (!(type in ROUTING_URLS)) {
+      throw new Error(`Unknown routing provider in ROUTING_PROVIDERS: ${type}. Expected one of: ${Object.keys(ROUTING_URLS).join(', ')}`);
+    }
+    const providerType = type as RoutingProviderType;
+    if (providerType === 'osrm') checkOsrmProfile(ROUTING_URLS.osrm);
+    return { type: providerType, baseUrl: ROUTING_URLS[providerType], apiKey: ROUTING_API_KEYS[providerType] };
+  });
+}
+
+/**
+ * Warn about an OSRM URL whose profile doesn't look like walking, e.g. .../route/v1/driving
+ * Not an error: osrm-routed ignores the profile in the URL and serves whatever graph it was
+ * built with, so a self-hosted foot server may well answer on /route/v1/driving
+ */
+function checkOsrmProfile(url: string): void {
+  const profile = url.replace(/\/$/, '').split('/').pop()!.toLowerCase();
+  if (!OSRM_WALKING_PROFILES.includes(profile)) {
+    console.error(`Warning: OSRM_URL profile "${profile}" is not a walking profile (${OSRM_WALKING_PROFILES.join(', ')}) - make sure the server routes on foot: ${url}`);
+  }
+}
+
 // API configuration
 export const API_CONFIG = {
   /** Delay between Nominatim requests to respect rate limits (ms) */
@@ -63,20 +182,101 @@ export const API_CONFIG = {
   userAgent: 'EmergencyDirectionsGenerator/1.0',
   /** Nominatim zoom level for detailed addresses */
   nominatimZoom: 18,
+  /** Address search results to fetch; more than one distinct place is an error */
+  geocodeResultLimit: 5,
+  /** Search results closer than this are the same place (m) */
+  geocodeSamePlaceMeters: 250,
+  /** Warn when given coordinates are further than this from their address (m) */
+  geocodeMismatchMeters: 1000,
+  /** Further passes over the mirror list after a network error, timeout, 429 or 5xx */
+  retries: optionalNumericEnv('HTTP_RETRIES', 3, { integer: true }),
+  /** Wait before the first retry, doubled for each one after (ms) */
+  retryBaseDelayMs: 2000,
+  /** Longest wait between retries, including a server's Retry-After (ms) */
+  retryMaxDelayMs: 60000,
+  /** Overpass request timeout (ms), also sent as the query's server-side timeout */
+  overpassTimeoutMs: 30000,
+  /** POIs are searched within this distance of the route (m) */
+  poiCorridorMeters: 500,
+  /** Route length covered by one Overpass query (m) */
+  poiCorridorChunkMeters: 30000,
+  /** Spacing of the route points POIs are measured against (m) */
+  poiCorridorPointSpacing: 50,
+  /** POIs are fetched and cached in grid cells this size, so overlapping routes share them (degrees) */
+  poiCellDegrees: 0.02,
   /** Maximum concurrent Nominatim requests */
   maxConcurrentRequests: 1,
+  /** Report an ETA when at least this many requests are waiting for one host */
+  queueReportThreshold: 10,
+  /** Minimum time between ETA reports for a host (ms) */
+  queueReportIntervalMs: 10000,
+} as const;
+
+// Request limits per host, applied to every API client through the shared
+// scheduler; hosts are matched against API_MIRRORS, anything else uses the default
+export const REQUEST_LIMITS = {
+  /** Nominatim usage policy: one request at a time, at most one per second */
+  nominatim: { maxConcurrent: API_CONFIG.maxConcurrentRequests, minIntervalMs: API_CONFIG.nominatimDelayMs },
+  /** Public Overpass servers allow a couple of parallel queries per client */
+  overpass: { maxConcurrent: 2, minIntervalMs: 1000 },
+  /** Routing servers and tile servers */
+  default: { maxConcurrent: 6, minIntervalMs: 0 },
+} as const;
+
+// HTTP modes that can be selected
+export const HTTP_MODES: readonly HttpMode[] = ['live', 'record', 'replay'];
+
+// Record/replay of external API requests
+export const HTTP_CONFIG = {
+  /** live, record (fetch and save every response) or replay (saved responses only, no network) */
+  mode: (process.env.HTTP_MODE || 'live') as HttpMode,
+  /** Directory for recorded requests and responses */
+  fixtureDirectory: process.env.HTTP_FIXTURES || 'fixtures',
 } as const;
 
+// Segmentation strategies that can be selected
+export const SEGMENTATION_STRATEGIES: readonly SegmentationStrategy[] = ['steps', 'distance', 'time', 'hybrid'];
+
+// Unit systems that can be selected
+export const UNIT_SYSTEMS: readonly UnitSystem[] = ['imperial', 'metric', 'both'];
+
 // Route processing
 export const ROUTE_CONFIG_PROCESSING = {
-  /** Number of steps per segment */
-  stepsPerSegment: parseInt(process.env.STEPS_PER_SEGMENT || '4', 10),
-  /** Average walking speed in meters per second (3 mph) */
-  walkingSpeedMps: 1.34,
-  /** Walking hours per day for planning */
-  walkingHoursPerDay: 8,
+  /** How to divide the route into segments: steps, distance, time or hybrid */
+  segmentStrategy: (process.env.SEGMENT_STRATEGY || 'steps') as SegmentationStrategy,
+  /** Number of steps per segment (steps and hybrid strategies) */
+  stepsPerSegment: optionalNumericEnv('STEPS_PER_SEGMENT', 4, { integer: true, positive: true }),
+  /** Target segment length in meters (distance strategy) */
+  segmentTargetMeters: optionalNumericEnv('SEGMENT_TARGET_METERS', 4000, { positive: true }),
+  /** Target walking time per segment in minutes (time strategy) */
+  segmentTargetMinutes: optionalNumericEnv('SEGMENT_TARGET_MINUTES', 60, { positive: true }),
+  /** Minimum and maximum segment length in meters (hybrid strategy) */
+  segmentMinMeters: optionalNumericEnv('SEGMENT_MIN_METERS', 1000, { positive: true }),
+  segmentMaxMeters: optionalNumericEnv('SEGMENT_MAX_METERS', 6000, { positive: true }),
+  /** Pace profile id (see PACE_PROFILES) */
+  paceProfile: process.env.PACE_PROFILE || 'fit-adult',
+  /** How far along the route a day's end may move to reach a shelter (meters) */
+  shelterSnapToleranceMeters: 3000,
+  /** Maximum distance from the route to an overnight shelter (meters) */
+  shelterMaxOffRouteMeters: 800,
+  /** POI icon types that can serve as overnight shelter */
+  shelterIconTypes: ['shelter', 'fire-station', 'church', 'school'] as string[],
   /** Number of waypoint samples per segment */
   waypointsPerSegment: 2,
+  /** Also route end → start and append a return trip section */
+  includeReturnTrip: process.env.RETURN_TRIP === 'true',
+  /** Number of backup routes (Plan B, Plan C, ...) to include */
+  maxAlternatives: optionalNumericEnv('ALTERNATIVE_ROUTES', 2, { integer: true }),
+  /** Alternatives sharing more than this fraction of their length with another route are dropped */
+  alternativeMaxOverlap: 0.8,
+  /** Distance within which two routes are considered to be on the same road (meters) */
+  routeMatchToleranceMeters: 30,
+  /** Off-route stretches shorter than this are not reported as divergences (meters) */
+  minDivergenceMeters: 200,
+  /** A detour via point goes this far beyond the edge of an avoided area, doubled on each retry (meters) */
+  avoidDetourMeters: 300,
+  /** Detour distances to try for each avoided area before giving up on it */
+  avoidDetourAttempts: 3,
 };
 
 // Distance thresholds (in meters)
@@ -89,6 +289,14 @@ export const DISTANCE_THRESHOLDS = {
   minMissingDistance: 500,
   /** Meters per mile conversion */
   metersPerMile: 1609.34,
+  /** Meters per foot conversion */
+  metersPerFoot: 0.3048,
+  /** Distances below this are shown in feet (imperial) - 0.1 mi */
+  maxFeetDistance: 160.934,
+  /** Distances below this are shown in meters (metric) */
+  maxMetersDistance: 1000,
+  /** A node and an area of the same POI type and name within this distance are one place */
+  poiDuplicateDistance: 300,
 } as const;
 
 // Map rendering
@@ -97,8 +305,14 @@ export const MAP_CONFIG = {
   overview: { width: 700, height: 180 },
   /** Segment map dimensions - compact square */
   segment: { width: 120, height: 120 },
+  /** Segment elevation profile dimensions, including the height labels on the right */
+  profile: { width: 240, height: 30 },
+  /** Width kept for the elevation profile's height labels */
+  profileLabelWidth: 50,
   /** Bounds padding factor */
   boundsPadding: 0.35,
+  /** Smallest span a map shows (degrees), e.g. for a segment that is a single point */
+  minSpanDegrees: 0.002,
   /** Max points to sample for SVG paths */
   maxOverviewPoints: 200,
   maxSegmentPoints: 100,
@@ -108,21 +322,111 @@ export const MAP_CONFIG = {
   overviewTileServerUrl: 'https://a.basemaps.cartocdn.com/rastertiles/voyager_nolabels/{z}/{x}/{y}.png',
   /** Tile size in pixels */
   tileSize: 256,
+  /** Directory for cached tiles, reused across runs */
+  tileCacheDirectory: 'cache/tiles',
+} as const;
+
+// Points of interest, in survival priority order (lower number = higher priority)
+export const POI_CATEGORIES: readonly POICategory[] = [
+  { id: 'hospital', tags: ['amenity=hospital'], label: 'Hospital', iconType: 'hospital', priority: 1 }, // Medical emergency
+  { id: 'defibrillator', tags: ['emergency=defibrillator'], label: 'AED', iconType: 'defibrillator', priority: 2, nameOptional: true },
+  { id: 'fire-station', tags: ['amenity=fire_station'], label: 'Fire Station', iconType: 'fire-station', priority: 3 }, // Emergency services
+  { id: 'police', tags: ['amenity=police'], label: 'Police', iconType: 'police', priority: 4 },
+  { id: 'emergency-phone', tags: ['emergency=phone'], label: 'Emergency Phone', iconType: 'emergency-phone', priority: 5, nameOptional: true },
+  { id: 'pharmacy', tags: ['amenity=pharmacy'], label: 'Pharmacy', iconType: 'pharmacy', priority: 6 },
+  { id: 'water', tags: ['amenity=drinking_water'], label: 'Drinking Water', iconType: 'water', priority: 7, nameOptional: true },
+  { id: 'shelter', tags: ['social_facility=shelter', 'emergency=assembly_point'], label: 'Emergency Shelter', iconType: 'shelter', priority: 8, nameOptional: true },
+  { id: 'church', tags: ['amenity=place_of_worship'], label: 'Church', iconType: 'church', priority: 9 }, // Shelter
+  { id: 'food', tags: ['shop=supermarket', 'shop=convenience'], label: 'Food Store', iconType: 'food', priority: 10 }, // Supplies
+  { id: 'gas', tags: ['amenity=fuel'], label: 'Gas', iconType: 'gas', priority: 11 }, // Supplies, often with water and food
+  { id: 'toilets', tags: ['amenity=toilets'], label: 'Toilets', iconType: 'toilets', priority: 12, nameOptional: true },
+  { id: 'school', tags: ['amenity=school'], label: 'School', iconType: 'school', priority: 13 }, // Landmark/shelter
+];
+
+/**
+ * Parse POI_CATEGORIES (comma-separated ids, most important first)
+ * Only the listed categories are fetched, with priorities in the listed order.
+ * Defaults to every category with its default priority
+ */
+export function loadPOICategories(value: string | undefined = process.env.POI_CATEGORIES): POICategory[] {
+  if (!value) return [...POI_CATEGORIES];
+
+  return value.split(',').map(s => s.trim().toLowerCase()).filter(Boolean).map((id, i) => {
+    const category = POI_CATEGORIES.find(c => c.id === id);
+    if (!category) {
+      throw new Error(`Unknown POI category: ${id}. Expected one of: ${POI_CATEGORIES.map(c => c.id).join(', ')}`);
+    }
+    return { ...category, priority: i + 1 };
+  });
+}
+
+// Walking paces - speed on the flat and rest breaks; hills slow or speed this up
+// when elevation data is available
+export const PACE_PROFILES: readonly PaceProfile[] = [
+  { id: 'fit-adult', label: 'Fit adult', speedMps: 1.34, restEveryMinutes: 60, restMinutes: 10, hoursPerDay: 8 }, // 3 mph
+  { id: 'heavy-pack', label: 'Heavy pack', speedMps: 1.1, restEveryMinutes: 50, restMinutes: 10, hoursPerDay: 7 },
+  { id: 'elderly', label: 'Elderly', speedMps: 1.0, restEveryMinutes: 45, restMinutes: 15, hoursPerDay: 6 },
+  { id: 'children', label: 'With children', speedMps: 0.9, restEveryMinutes: 40, restMinutes: 15, hoursPerDay: 5 },
+  { id: 'injured', label: 'Injured', speedMps: 0.6, restEveryMinutes: 30, restMinutes: 15, hoursPerDay: 4 },
+];
+
+/**
+ * Look up a pace profile by id (defaults to PACE_PROFILE, or fit-adult)
+ * WALKING_HOURS_PER_DAY, if set, overrides the profile's hours per day
+ */
+export function loadPaceProfile(value: string = ROUTE_CONFIG_PROCESSING.paceProfile): PaceProfile {
+  const id = value.trim().toLowerCase();
+  const profile = PACE_PROFILES.find(p => p.id === id);
+  if (!profile) {
+    throw new Error(`Unknown pace profile: ${value}. Expected one of: ${PACE_PROFILES.map(p => p.id).join(', ')}`);
+  }
+  return { ...profile, hoursPerDay: optionalNumericEnv('WALKING_HOURS_PER_DAY', profile.hoursPerDay, { positive: true }) };
+}
+
+// Elevation from local DEM tiles
+export const ELEVATION_CONFIG = {
+  /** Directory of SRTM .hgt or GeoTIFF (geographic lat/lon) tiles; elevation is skipped if unset */
+  demDirectory: process.env.DEM_DIR || '',
+  /** Spacing of elevation samples along the route (meters) */
+  sampleSpacingMeters: 30,
+  /** Rises and falls smaller than this are treated as DEM noise when totalling climb (meters) */
+  climbThresholdMeters: 3,
+  /** A climb at least this steep on average is called out in the directions (percent) */
+  steepGradePercent: 8,
+  /** ...if it gains at least this much height (meters) */
+  minSteepClimbMeters: 20,
+  /** Most steep climbs to call out per route, steepest first */
+  maxSteepClimbs: 5,
+  /** Smallest height range a profile is drawn with, so flat segments look flat (meters) */
+  profileMinRangeMeters: 30,
+  /** Decoded GeoTIFF blocks kept in memory */
+  maxCachedBlocks: 64,
 } as const;
 
-// Highway terms to flag in directions
+// Road types, ending a road's name, for expressways and similar roads closed to pedestrians
+// "Parkway" and "Highway" are left out: many are ordinary streets, e.g. "Eastern Parkway"
 export const HIGHWAY_TERMS = [
   'expressway',
   'thruway',
-  'parkway',
-  'interstate',
-  'i-',
-  'highway',
   'turnpike',
+  'freeway',
+  'motorway',
 ] as const;
 
 // Output configuration
 export const OUTPUT_CONFIG = {
   directory: 'output',
-  filename: 'emergency-directions.html',
+  /** Base filename; the extension comes from the output format */
+  basename: 'emergency-directions',
+  defaultFormat: 'html',
+  /** Unit system for distances: imperial, metric or both */
+  units: (process.env.UNITS || 'imperial') as UnitSystem,
+  /** Document language, or "primary,secondary" for bilingual output */
+  lang: process.env.DIRECTIONS_LANG || 'en',
+  /** PDF paper size, e.g. LETTER or A4 */
+  pdfPageSize: process.env.PDF_PAGE_SIZE || 'LETTER',
+  /** TrueType/OpenType font for PDF text - required for non-Latin scripts such as Chinese */
+  pdfFont: process.env.PDF_FONT || '',
+  /** Bold variant of pdfFont (defaults to pdfFont) */
+  pdfBoldFont: process.env.PDF_FONT_BOLD || '',
 } as const;
@@ -0,0 +1,118 @@
+/**
+ * English messages
+ */
+
+import { MessageCatalog } from '../types';
+
+// Directions are shouted so they stand out on the page: "Turn SLIGHT LEFT"
+const dir = (modifier: string) => modifier.toUpperCase();
+
+export const en: MessageCatalog = {
+  languageName: 'English',
+  instructions: {
+    start: 'Start',
+    arrive: 'Arrive',
+    continue: 'Continue',
+    note: 'Note',
+    turn: (d) => `Turn ${dir(d)}`,
+    bear: (d) => `Bear ${dir(d)}`,
+    merge: (d) => (d ? `Merge ${dir(d)}` : 'Merge'),
+    fork: (d) => (d ? `At the fork, take a ${dir(d)}` : 'At the fork, stay on route'),
+    endOfRoad: (d) => (d ? `At the end of the road, take a ${dir(d)}` : 'At the end of the road'),
+    roundabout: (d) => (d ? `At the roundabout, take a ${dir(d)}` : 'Roundabout'),
+    onRamp: (d) => (d ? `On ramp ${dir(d)}` : 'On ramp'),
+    offRamp: (d) => (d ? `Off ramp ${dir(d)}` : 'Off ramp'),
+    onto: (action, road) => `${action} onto ${road}`,
+    on: (action, road) => `${action} on ${road}`,
+    followRoute: 'Follow route on map',
+  },
+  document: {
+    title: 'Emergency Walking Directions',
+    heading: 'Emergency Walking Route',
+    from: 'From',
+    to: 'To',
+    via: 'Via',
+    returnTotals: 'Return',
+    hoursWalking: (hours) => `~${hours} hours walking`,
+    planDays: (days) => `Plan ${days}+ days`,
+    duration: (h, m) => (h > 0 ? `${h}h ${m}m` : `${m}m`),
+    paceLabel: (profile) => `Pace: ${profile}`,
+    warningTitle: '⚠ Emergency Use:',
+    warning: 'Walk facing traffic. Carry water. Rest when needed. At night, stay visible or shelter in place.',
+    survival: [
+      { title: 'Water', text: 'Gas stations, fast food, fire stations' },
+      { title: 'Food', text: 'Convenience stores, supermarkets' },
+      { title: 'Shelter', text: 'Churches, fire stations, 24hr stores' },
+      { title: 'Emergency', text: 'Call 911, flag vehicles, seek lit areas' },
+    ],
+    emergency: 'Emergency',
+    overview: 'Full Route Overview',
+    returnOverview: 'Return Route Overview',
+    returnTrip: 'Return Trip',
+    leg: (num, total) => `Leg ${num} of ${total}`,
+    arrive: 'Arrive:',
+    depart: 'Depart:',
+    continueTo: (name) => `continue to ${name}`,
+    backupRoutes: 'Backup Routes',
+    ifBlocked: 'If the main route is blocked',
+    planLabel: (letter) => `Plan ${letter}`,
+    leaveAt: (distance, road) => `Leave main route at ${distance}${road ? ` onto ${road}` : ''}`,
+    rejoinAt: (distance, road) => `rejoin at ${distance}${road ? ` on ${road}` : ''}`,
+    continueToDestination: 'continue to destination',
+    offMainRoute: (distance) => `${distance} off main route`,
+    day: (num, total) => `Day ${num} of ${total}`,
+    overnight: 'Overnight:',
+    end: 'End:',
+    arriveAtDestination: 'Arrive at destination',
+    offRoute: (distance) => `${distance} off route`,
+    noShelter: (coords) => `No shelter found nearby - stop near ${coords}`,
+    nextMorning: 'Next morning',
+    dataIncomplete: '⚠ Data incomplete:',
+    placeNamesUnavailable: 'Place names could not be looked up.',
+    poisUnavailable: 'Points of interest could not be looked up - hospitals and shelters near this segment may be missing from the map.',
+    highwayBadge: '⚠ HIGHWAY',
+    highwayExposure: (distance) => `⚠ ${distance} on highways`,
+    highwayTitle: '⚠ Highways:',
+    highwaySummary: (distance, segments) => `${distance} of this route follows highways or expressways (${segments.length === 1 ? 'segment' : 'segments'} ${segments.join(', ')}). Walking on them is dangerous and often illegal - use a parallel road where you can.`,
+    avoidTitle: '⚠ Avoided areas:',
+    avoidedAreas: (names) => `The route goes around ${names} (hatched on the maps).`,
+    areasNotAvoided: (names) => `No way around ${names} was found - the route still passes through. Check conditions there before setting off.`,
+    climbTotals: (ascent, descent) => `${ascent} up · ${descent} down`,
+    steepClimbBadge: (ascent, grade) => `▲ STEEP ${grade}% · ${ascent}`,
+    mapStart: 'START',
+    mapEnd: 'END',
+    batchTitle: 'Emergency Walking Directions - Index',
+    batchHeading: 'Emergency Walking Routes',
+    batchColumns: ['Plan', 'Route', 'Distance'],
+    failed: (error) => `Failed: ${error}`,
+  },
+  layers: {
+    stops: 'Stops',
+    segments: 'Segments',
+    directions: 'Directions',
+    pointsOfInterest: 'Points of interest',
+    days: 'Day stages',
+  },
+  poiTypes: {
+    'hospital': 'Hospital',
+    'fire-station': 'Fire Station',
+    'police': 'Police',
+    'church': 'Church',
+    'gas': 'Gas',
+    'school': 'School',
+    'defibrillator': 'Defibrillator (AED)',
+    'emergency-phone': 'Emergency Phone',
+    'pharmacy': 'Pharmacy',
+    'water': 'Drinking Water',
+    'shelter': 'Emergency Shelter',
+    'food': 'Food Store',
+    'toilets': 'Toilets',
+  },
+  paceProfiles: {
+    'fit-adult': 'Fit adult',
+    'heavy-pack': 'Heavy pack',
+    'elderly': 'Elderly',
+    'children': 'With children',
+    'injured': 'Injured',
+  },
+};
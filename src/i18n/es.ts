@@ -0,0 +1,128 @@
+/**
+ * Spanish messages
+ */
+
+import { MessageCatalog } from '../types';
+
+const DIRECTIONS: Record<string, string> = {
+  'left': 'a la izquierda',
+  'right': 'a la derecha',
+  'slight left': 'ligeramente a la izquierda',
+  'slight right': 'ligeramente a la derecha',
+  'sharp left': 'bruscamente a la izquierda',
+  'sharp right': 'bruscamente a la derecha',
+  'straight': 'recto',
+  'uturn': 'en U',
+};
+
+const dir = (modifier: string) => DIRECTIONS[modifier] || modifier;
+
+export const es: MessageCatalog = {
+  languageName: 'Español',
+  instructions: {
+    start: 'Comience',
+    arrive: 'Llegue',
+    continue: 'Continúe',
+    note: 'Nota',
+    turn: (d) => (d === 'uturn' ? 'Dé la vuelta en U' : `Gire ${dir(d)}`),
+    bear: (d) => `Manténgase ${dir(d)}`,
+    merge: (d) => (d ? `Incorpórese ${dir(d)}` : 'Incorpórese'),
+    fork: (d) => (d ? `En la bifurcación, manténgase ${dir(d)}` : 'En la bifurcación, siga la ruta'),
+    endOfRoad: (d) => (d ? `Al final de la calle, gire ${dir(d)}` : 'Al final de la calle'),
+    roundabout: (d) => (d ? `En la rotonda, salga ${dir(d)}` : 'Rotonda'),
+    onRamp: (d) => (d ? `Tome la rampa de acceso ${dir(d)}` : 'Rampa de acceso'),
+    offRamp: (d) => (d ? `Tome la salida ${dir(d)}` : 'Salida'),
+    onto: (action, road) => `${action} hacia ${road}`,
+    on: (action, road) => `${action} por ${road}`,
+    followRoute: 'Siga la ruta en el mapa',
+  },
+  document: {
+    title: 'Indicaciones de emergencia a pie',
+    heading: 'Ruta de emergencia a pie',
+    from: 'Desde',
+    to: 'Hasta',
+    via: 'Pasando por',
+    returnTotals: 'Regreso',
+    hoursWalking: (hours) => `~${hours} horas a pie`,
+    planDays: (days) => `Prevea ${days}+ días`,
+    duration: (h, m) => (h > 0 ? `${h} h ${m} min` : `${m} min`),
+    paceLabel: (profile) => `Ritmo: ${profile}`,
+    warningTitle: '⚠ Uso en emergencias:',
+    warning: 'Camine de frente al tráfico. Lleve agua. Descanse cuando lo necesite. De noche, hágase visible o busque refugio.',
+    survival: [
+      { title: 'Agua', text: 'Gasolineras, comida rápida, estaciones de bomberos' },
+      { title: 'Comida', text: 'Tiendas de conveniencia, supermercados' },
+      { title: 'Refugio', text: 'Iglesias, estaciones de bomberos, tiendas 24 horas' },
+      { title: 'Emergencia', text: 'Llame al 911, pida ayuda a vehículos, busque zonas iluminadas' },
+    ],
+    emergency: 'Emergencia',
+    overview: 'Vista general de la ruta',
+    returnOverview: 'Vista general del regreso',
+    returnTrip: 'Viaje de regreso',
+    leg: (num, total) => `Tramo ${num} de ${total}`,
+    arrive: 'Llegada:',
+    depart: 'Salida:',
+    continueTo: (name) => `continúe hacia ${name}`,
+    backupRoutes: 'Rutas alternativas',
+    ifBlocked: 'Si la ruta principal está bloqueada',
+    planLabel: (letter) => `Plan ${letter}`,
+    leaveAt: (distance, road) => `Deje la ruta principal a los ${distance}${road ? ` hacia ${road}` : ''}`,
+    rejoinAt: (distance, road) => `vuelva a ella a los ${distance}${road ? ` por ${road}` : ''}`,
+    continueToDestination: 'continúe hasta el destino',
+    offMainRoute: (distance) => `${distance} fuera de la ruta principal`,
+    day: (num, total) => `Día ${num} de ${total}`,
+    overnight: 'Pernocte:',
+    end: 'Fin:',
+    arriveAtDestination: 'Llegada al destino',
+    offRoute: (distance) => `a ${distance} de la ruta`,
+    noShelter: (coords) => `No hay refugio cercano - deténgase cerca de ${coords}`,
+    nextMorning: 'A la mañana siguiente',
+    dataIncomplete: '⚠ Datos incompletos:',
+    placeNamesUnavailable: 'No se pudieron consultar los nombres de lugares.',
+    poisUnavailable: 'No se pudieron consultar los puntos de interés: es posible que falten en el mapa hospitales y refugios cercanos a este segmento.',
+    highwayBadge: '⚠ VÍA RÁPIDA',
+    highwayExposure: (distance) => `⚠ ${distance} por vías rápidas`,
+    highwayTitle: '⚠ Vías rápidas:',
+    highwaySummary: (distance, segments) => `${distance} de esta ruta va por autopistas o vías rápidas (${segments.length === 1 ? 'segmento' : 'segmentos'} ${segments.join(', ')}). Caminar por ellas es peligroso y a menudo ilegal: use una calle paralela siempre que pueda.`,
+    avoidTitle: '⚠ Zonas evitadas:',
+    avoidedAreas: (names) => `La ruta rodea ${names} (rayado en los mapas).`,
+    areasNotAvoided: (names) => `No se encontró forma de rodear ${names}: la ruta sigue pasando por ahí. Compruebe la situación antes de salir.`,
+    climbTotals: (ascent, descent) => `${ascent} de subida · ${descent} de bajada`,
+    steepClimbBadge: (ascent, grade) => `▲ PENDIENTE ${grade}% · ${ascent}`,
+    mapStart: 'INICIO',
+    mapEnd: 'FIN',
+    batchTitle: 'Indicaciones de emergencia a pie - Índice',
+    batchHeading: 'Rutas de emergencia a pie',
+    batchColumns: ['Plan', 'Ruta', 'Distancia'],
+    failed: (error) => `Error: ${error}`,
+  },
+  layers: {
+    stops: 'Paradas',
+    segments: 'Segmentos',
+    directions: 'Indicaciones',
+    pointsOfInterest: 'Puntos de interés',
+    days: 'Etapas diarias',
+  },
+  poiTypes: {
+    'hospital': 'Hospital',
+    'fire-station': 'Bomberos',
+    'police': 'Policía',
+    'church': 'Iglesia',
+    'gas': 'Gasolinera',
+    'school': 'Escuela',
+    'defibrillator': 'Desfibrilador (DEA)',
+    'emergency-phone': 'Teléfono de emergencia',
+    'pharmacy': 'Farmacia',
+    'water': 'Agua potable',
+    'shelter': 'Refugio de emergencia',
+    'food': 'Tienda de alimentos',
+    'toilets': 'Baños',
+  },
+  paceProfiles: {
+    'fit-adult': 'Adulto en forma',
+    'heavy-pack': 'Mochila pesada',
+    'elderly': 'Personas mayores',
+    'children': 'Con niños',
+    'injured': 'Lesionado',
+  },
+};
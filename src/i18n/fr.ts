@@ -0,0 +1,128 @@
+/**
+ * French messages
+ */
+
+import { MessageCatalog } from '../types';
+
+const DIRECTIONS: Record<string, string> = {
+  'left': 'à gauche',
+  'right': 'à droite',
+  'slight left': 'légèrement à gauche',
+  'slight right': 'légèrement à droite',
+  'sharp left': 'franchement à gauche',
+  'sharp right': 'franchement à droite',
+  'straight': 'tout droit',
+  'uturn': 'demi-tour',
+};
+
+const dir = (modifier: string) => DIRECTIONS[modifier] || modifier;
+
+export const fr: MessageCatalog = {
+  languageName: 'Français',
+  instructions: {
+    start: 'Départ',
+    arrive: 'Arrivée',
+    continue: 'Continuez',
+    note: 'Remarque',
+    turn: (d) => (d === 'uturn' ? 'Faites demi-tour' : `Tournez ${dir(d)}`),
+    bear: (d) => `Serrez ${dir(d)}`,
+    merge: (d) => (d ? `Insérez-vous ${dir(d)}` : 'Insérez-vous'),
+    fork: (d) => (d ? `À l'embranchement, prenez ${dir(d)}` : "À l'embranchement, restez sur l'itinéraire"),
+    endOfRoad: (d) => (d ? `Au bout de la route, tournez ${dir(d)}` : 'Au bout de la route'),
+    roundabout: (d) => (d ? `Au rond-point, prenez ${dir(d)}` : 'Rond-point'),
+    onRamp: (d) => (d ? `Prenez la bretelle d'accès ${dir(d)}` : "Bretelle d'accès"),
+    offRamp: (d) => (d ? `Prenez la sortie ${dir(d)}` : 'Sortie'),
+    onto: (action, road) => `${action} sur ${road}`,
+    on: (action, road) => `${action} sur ${road}`,
+    followRoute: "Suivez l'itinéraire sur la carte",
+  },
+  document: {
+    title: "Itinéraire pédestre d'urgence",
+    heading: "Itinéraire pédestre d'urgence",
+    from: 'Départ',
+    to: 'Arrivée',
+    via: 'Par',
+    returnTotals: 'Retour',
+    hoursWalking: (hours) => `~${hours} heures de marche`,
+    planDays: (days) => `Prévoir ${days}+ jours`,
+    duration: (h, m) => (h > 0 ? `${h} h ${String(m).padStart(2, '0')}` : `${m} min`),
+    paceLabel: (profile) => `Allure : ${profile}`,
+    warningTitle: "⚠ En cas d'urgence :",
+    warning: 'Marchez face à la circulation. Emportez de l\'eau. Reposez-vous si besoin. La nuit, restez visible ou mettez-vous à l\'abri.',
+    survival: [
+      { title: 'Eau', text: 'Stations-service, restauration rapide, casernes de pompiers' },
+      { title: 'Nourriture', text: 'Supérettes, supermarchés' },
+      { title: 'Abri', text: 'Églises, casernes de pompiers, magasins ouverts 24h/24' },
+      { title: 'Urgence', text: 'Appelez le 911, faites signe aux véhicules, cherchez les zones éclairées' },
+    ],
+    emergency: 'Urgence',
+    overview: "Vue d'ensemble de l'itinéraire",
+    returnOverview: "Vue d'ensemble du retour",
+    returnTrip: 'Trajet retour',
+    leg: (num, total) => `Étape ${num} sur ${total}`,
+    arrive: 'Arrivée :',
+    depart: 'Départ :',
+    continueTo: (name) => `continuez vers ${name}`,
+    backupRoutes: 'Itinéraires de secours',
+    ifBlocked: "Si l'itinéraire principal est bloqué",
+    planLabel: (letter) => `Plan ${letter}`,
+    leaveAt: (distance, road) => `Quittez l'itinéraire principal à ${distance}${road ? ` sur ${road}` : ''}`,
+    rejoinAt: (distance, road) => `rejoignez-le à ${distance}${road ? ` sur ${road}` : ''}`,
+    continueToDestination: "continuez jusqu'à destination",
+    offMainRoute: (distance) => `${distance} hors de l'itinéraire principal`,
+    day: (num, total) => `Jour ${num} sur ${total}`,
+    overnight: 'Nuit :',
+    end: 'Fin :',
+    arriveAtDestination: 'Arrivée à destination',
+    offRoute: (distance) => `à ${distance} de l'itinéraire`,
+    noShelter: (coords) => `Aucun abri à proximité - arrêtez-vous près de ${coords}`,
+    nextMorning: 'Le lendemain matin',
+    dataIncomplete: '⚠ Données incomplètes :',
+    placeNamesUnavailable: "Les noms de lieux n'ont pas pu être récupérés.",
+    poisUnavailable: "Les points d'intérêt n'ont pas pu être récupérés : des hôpitaux et abris proches de ce segment peuvent manquer sur la carte.",
+    highwayBadge: '⚠ VOIE RAPIDE',
+    highwayExposure: (distance) => `⚠ ${distance} sur voie rapide`,
+    highwayTitle: '⚠ Voies rapides :',
+    highwaySummary: (distance, segments) => `${distance} de cet itinéraire emprunte des autoroutes ou voies rapides (${segments.length === 1 ? 'segment' : 'segments'} ${segments.join(', ')}). Y marcher est dangereux et souvent interdit : prenez une route parallèle si possible.`,
+    avoidTitle: '⚠ Zones évitées :',
+    avoidedAreas: (names) => `L'itinéraire contourne ${names} (hachuré sur les cartes).`,
+    areasNotAvoided: (names) => `Aucun moyen de contourner ${names} n'a été trouvé : l'itinéraire y passe encore. Vérifiez la situation avant de partir.`,
+    climbTotals: (ascent, descent) => `${ascent} de montée · ${descent} de descente`,
+    steepClimbBadge: (ascent, grade) => `▲ MONTÉE ${grade} % · ${ascent}`,
+    mapStart: 'DÉPART',
+    mapEnd: 'ARRIVÉE',
+    batchTitle: "Itinéraires pédestres d'urgence - Index",
+    batchHeading: "Itinéraires pédestres d'urgence",
+    batchColumns: ['Plan', 'Itinéraire', 'Distance'],
+    failed: (error) => `Échec : ${error}`,
+  },
+  layers: {
+    stops: 'Arrêts',
+    segments: 'Segments',
+    directions: 'Instructions',
+    pointsOfInterest: "Points d'intérêt",
+    days: 'Étapes journalières',
+  },
+  poiTypes: {
+    'hospital': 'Hôpital',
+    'fire-station': 'Pompiers',
+    'police': 'Police',
+    'church': 'Église',
+    'gas': 'Station-service',
+    'school': 'École',
+    'defibrillator': 'Défibrillateur (DAE)',
+    'emergency-phone': "Téléphone d'urgence",
+    'pharmacy': 'Pharmacie',
+    'water': 'Eau potable',
+    'shelter': "Abri d'urgence",
+    'food': 'Épicerie',
+    'toilets': 'Toilettes',
+  },
+  paceProfiles: {
+    'fit-adult': 'Adulte en forme',
+    'heavy-pack': 'Sac lourd',
+    'elderly': 'Personnes âgées',
+    'children': 'Avec enfants',
+    'injured': 'Blessé',
+  },
+};
@@ -0,0 +1,56 @@
+/**
+ * Message catalogs for localized documents
+ */
+
+import { DirectionsPlan, Locale, MessageCatalog, POI } from '../types';
+import { en } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { zh } from './zh';
+
+export const MESSAGE_CATALOGS: Record<Locale, MessageCatalog> = { en, es, fr, zh };
+
+export const LOCALES = Object.keys(MESSAGE_CATALOGS) as Locale[];
+
+/**
+ * Get the message catalog for a language
+ */
+export function getMessages(lang: Locale): MessageCatalog {
+  return MESSAGE_CATALOGS[lang];
+}
+
+/**
+ * Parse a language setting: "es" for one language, or "es,en" for
+ * bilingual output with the second language shown alongside the first
+ */
+export function parseLanguages(value: string): { lang: Locale; secondaryLang?: Locale } {
+  const codes = value.split(',').map(c => c.trim().toLowerCase()).filter(Boolean);
+  if (codes.length === 0 || codes.length > 2) {
+    throw new Error(`language must be one code or two separated by a comma, got: ${value}`);
+  }
+
+  for (const code of codes) {
+    if (!LOCALES.includes(code as Locale)) {
+      throw new Error(`language must be one of ${LOCALES.join(', ')}, got: ${code}`);
+    }
+  }
+
+  const [lang, secondaryLang] = codes as Locale[];
+  return secondaryLang && secondaryLang !== lang ? { lang, secondaryLang } : { lang };
+}
+
+/**
+ * The plan with unnamed POIs (taps, AEDs, shelters) labelled with their type
+ * in the plan's language instead of the English category label
+ */
+export function localizePOINames(plan: DirectionsPlan): DirectionsPlan {
+  const m = getMessages(plan.lang);
+  const localize = (poi: POI): POI => (poi.unnamed ? { ...poi, name: m.poiTypes[poi.iconType] || poi.name } : poi);
+
+  return {
+    ...plan,
+    segmentPOIs: plan.segmentPOIs.map(pois => pois.map(localize)),
+    stages: plan.stages.map(stage => (stage.overnight ? { ...stage, overnight: localize(stage.overnight) } : stage)),
+    returnTrip: plan.returnTrip && localizePOINames(plan.returnTrip),
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Chinese (Simplified) messages
+ */
+
+import { MessageCatalog } from '../types';
+
+const TURNS: Record<string, string> = {
+  'left': '左转',
+  'right': '右转',
+  'slight left': '向左前方转',
+  'slight right': '向右前方转',
+  'sharp left': '向左后方急转',
+  'sharp right': '向右后方急转',
+  'straight': '直行',
+  'uturn': '掉头',
+};
+
+const turn = (modifier: string) => TURNS[modifier] || modifier;
+
+// Which side to keep to at forks, merges and ramps
+const keep = (modifier: string) => (modifier.includes('left') ? '靠左' : modifier.includes('right') ? '靠右' : '直行');
+
+export const zh: MessageCatalog = {
+  languageName: '中文',
+  instructions: {
+    start: '出发',
+    arrive: '到达',
+    continue: '继续前行',
+    note: '注意',
+    turn: (d) => turn(d),
+    bear: (d) => `${keep(d)}行走`,
+    merge: (d) => (d ? `${keep(d)}并入` : '并入'),
+    fork: (d) => (d ? `在岔路口${keep(d)}` : '在岔路口沿路线前行'),
+    endOfRoad: (d) => (d ? `在道路尽头${turn(d)}` : '在道路尽头'),
+    roundabout: (d) => (d ? `在环岛处${turn(d)}` : '环岛'),
+    onRamp: (d) => (d ? `${keep(d)}进入匝道` : '进入匝道'),
+    offRamp: (d) => (d ? `${keep(d)}驶出匝道` : '驶出匝道'),
+    onto: (action, road) => `${action}，进入${road}`,
+    on: (action, road) => `沿${road}${action}`,
+    followRoute: '按地图上的路线前行',
+  },
+  document: {
+    title: '紧急步行路线指引',
+    heading: '紧急步行路线',
+    from: '起点',
+    to: '终点',
+    via: '途经',
+    returnTotals: '返程',
+    hoursWalking: (hours) => `步行约 ${hours} 小时`,
+    planDays: (days) => `预计 ${days}+ 天`,
+    duration: (h, m) => (h > 0 ? `${h}小时${m}分钟` : `${m}分钟`),
+    paceLabel: (profile) => `步速：${profile}`,
+    warningTitle: '⚠ 紧急使用：',
+    warning: '迎着车流方向行走。随身带水。需要时休息。夜间保持醒目或就地避难。',
+    survival: [
+      { title: '饮水', text: '加油站、快餐店、消防站' },
+      { title: '食物', text: '便利店、超市' },
+      { title: '避难', text: '教堂、消防站、24小时商店' },
+      { title: '紧急情况', text: '拨打 911、向过往车辆求助、前往有照明的地方' },
+    ],
+    emergency: '紧急电话',
+    overview: '全程概览',
+    returnOverview: '返程概览',
+    returnTrip: '返程',
+    leg: (num, total) => `第 ${num} 段，共 ${total} 段`,
+    arrive: '到达：',
+    depart: '出发：',
+    continueTo: (name) => `继续前往${name}`,
+    backupRoutes: '备用路线',
+    ifBlocked: '如果主路线受阻',
+    planLabel: (letter) => `方案 ${letter}`,
+    leaveAt: (distance, road) => `在 ${distance} 处离开主路线${road ? `，进入${road}` : ''}`,
+    rejoinAt: (distance, road) => `在 ${distance} 处${road ? `沿${road}` : ''}回到主路线`,
+    continueToDestination: '继续前往目的地',
+    offMainRoute: (distance) => `偏离主路线 ${distance}`,
+    day: (num, total) => `第 ${num} 天，共 ${total} 天`,
+    overnight: '过夜：',
+    end: '终点：',
+    arriveAtDestination: '到达目的地',
+    offRoute: (distance) => `距路线 ${distance}`,
+    noShelter: (coords) => `附近没有避难所 - 在 ${coords} 附近停留`,
+    nextMorning: '第二天早上',
+    dataIncomplete: '⚠ 数据不完整：',
+    placeNamesUnavailable: '无法查询地名。',
+    poisUnavailable: '无法查询兴趣点——本路段附近的医院和避难所可能未显示在地图上。',
+    highwayBadge: '⚠ 高速公路',
+    highwayExposure: (distance) => `⚠ 高速公路 ${distance}`,
+    highwayTitle: '⚠ 高速公路：',
+    highwaySummary: (distance, segments) => `本路线有 ${distance} 经过高速公路或快速路（路段 ${segments.join('、')}）。在其上步行十分危险，且通常是违法的——请尽量改走平行道路。`,
+    avoidTitle: '⚠ 避开区域：',
+    avoidedAreas: (names) => `路线绕开了${names}（地图上以斜线标出）。`,
+    areasNotAvoided: (names) => `未能找到绕开${names}的路线——路线仍会经过该区域。出发前请确认当地情况。`,
+    climbTotals: (ascent, descent) => `上升 ${ascent} · 下降 ${descent}`,
+    steepClimbBadge: (ascent, grade) => `▲ 陡坡 ${grade}% · ${ascent}`,
+    mapStart: '起点',
+    mapEnd: '终点',
+    batchTitle: '紧急步行路线指引 - 目录',
+    batchHeading: '紧急步行路线',
+    batchColumns: ['方案', '路线', '距离'],
+    failed: (error) => `失败：${error}`,
+  },
+  layers: {
+    stops: '站点',
+    segments: '路段',
+    directions: '路线指引',
+    pointsOfInterest: '兴趣点',
+    days: '每日行程',
+  },
+  poiTypes: {
+    'hospital': '医院',
+    'fire-station': '消防站',
+    'police': '警察局',
+    'church': '教堂',
+    'gas': '加油站',
+    'school': '学校',
+    'defibrillator': '除颤器 (AED)',
+    'emergency-phone': '紧急电话',
+    'pharmacy': '药店',
+    'water': '饮用水',
+    'shelter': '应急避难所',
+    'food': '食品店',
+    'toilets': '厕所',
+  },
+  paceProfiles: {
+    'fit-adult': '健康成人',
+    'heavy-pack': '负重',
+    'elderly': '老年人',
+    'children': '带儿童',
+    'injured': '受伤',
+  },
+};
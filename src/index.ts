@@ -1,87 +1,13 @@
+#!/usr/bin/env node
 /**
  * Emergency Directions Generator
  *
  * Generates printable walking directions using OpenStreetMap routing and geocoding APIs.
+ * See `emergency-directions --help` for commands and options.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
-import { ROUTE_CONFIG, OUTPUT_CONFIG } from './config';
-import { fetchRoute, extractSteps } from './api/osrm';
-import { fetchSegmentLocations } from './api/nominatim';
-import { fetchPOIsForSegments } from './api/overpass';
-import { segmentRoute } from './processing/route';
-import { groupStepsBySegment } from './processing/steps';
-import { generateHtmlDocument } from './rendering/html';
-import { formatDistance, formatDuration } from './utils/format';
+import { runCli } from './cli';
 
-async function main(): Promise<void> {
-  const startTime = Date.now();
-
-  try {
-    console.log('=== Emergency Walking Directions Generator ===\n');
-
-    // Step 1: Fetch route from OSRM
-    const route = await fetchRoute(ROUTE_CONFIG.start, ROUTE_CONFIG.end);
-    console.log(`Route found: ${formatDistance(route.distance)}, ${formatDuration(route.duration)}\n`);
-
-    // Step 2: Extract navigation steps (use OSRM data as-is)
-    const steps = extractSteps(route);
-    console.log(`Total navigation steps: ${steps.length}`);
-
-    // Log step distances to debug
-    const totalStepDistance = steps.reduce((sum, s) => sum + s.distance, 0);
-    console.log(`Total step distance: ${formatDistance(totalStepDistance)} vs route distance: ${formatDistance(route.distance)}`);
-
-    // Debug: show first 10 steps
-    console.log('\nFirst 10 steps:');
-    steps.slice(0, 10).forEach((s, i) => {
-      console.log(`  ${i + 1}. ${s.instruction} ${s.modifier || ''} -> "${s.name || '(unnamed)'}" (${Math.round(s.distance)}m)`);
-    });
-    console.log('');
-
-    // Step 3: Segment the route by steps
-    const segments = segmentRoute(route, steps);
-    console.log(`Route split into ${segments.length} segments\n`);
-
-    // Step 4: Fetch location names (this is the slow part due to rate limiting)
-    const segmentLocations = await fetchSegmentLocations(segments);
-
-    // Step 5: Group steps by segment
-    const segmentSteps = groupStepsBySegment(steps, segments);
-
-    // Debug: show step distribution
-    console.log('\nSteps per segment:');
-    segmentSteps.forEach((steps, i) => {
-      const roads = steps.map(s => `${s.instruction}:${s.name}(${Math.round(s.distance)}m)`).join(', ');
-      console.log(`  Segment ${i + 1}: ${steps.length} steps - ${roads || 'none'}`);
-    });
-
-    // Step 6: Fetch POIs for each segment
-    console.log('');
-    const segmentBounds = segments.map(s => s.bounds);
-    const segmentPOIs = await fetchPOIsForSegments(segmentBounds);
-
-    // Step 7: Generate HTML document (fetches and embeds map tiles)
-    console.log('\nGenerating HTML with embedded map tiles...');
-    const html = await generateHtmlDocument(route, segments, segmentLocations, segmentSteps, segmentPOIs);
-
-    // Step 8: Write output
-    const outputDir = path.join(__dirname, '..', OUTPUT_CONFIG.directory);
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
-    }
-
-    const outputPath = path.join(outputDir, OUTPUT_CONFIG.filename);
-    fs.writeFileSync(outputPath, html);
-
-    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-    console.log(`\nOutput written to: ${outputPath}`);
-    console.log(`Total time: ${elapsed}s`);
-  } catch (error) {
-    console.error('Error generating directions:', error);
-    process.exit(1);
-  }
-}
-
-main();
+runCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,189 @@
+/**
+ * Batch manifest loading (JSON or YAML)
+ *
+ * Example (YAML):
+ *   defaults:
+ *     stepsPerSegment: 5
+ *   routes:
+ *     - id: alice-home-school
+ *       title: Alice - Home to School
+ *       from: { lat: 41.39, lon: -73.45, name: Home, address: 1 Main St, Danbury, CT }
+ *       to: { name: School, address: 2 Elm St, Danbury, CT }   # coordinates geocoded from the address
+ *       via: []
+ *       avoidAreas: [flood-zone.geojson]   # relative to the manifest
+ *       pace: children
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { BatchManifest, BatchRoute, LocationInput, RouteSettings, SegmentationStrategy, UnitSystem } from './types';
+import { SEGMENTATION_STRATEGIES, UNIT_SYSTEMS, loadPOICategories, loadPaceProfile } from './config';
+import { parseLanguages } from './i18n';
+import { parseOutputFormats } from './rendering/formats';
+import { loadAvoidAreas } from './processing/avoid';
+
+/**
+ * Load and validate a manifest file
+ */
+export function loadManifest(manifestPath: string): BatchManifest {
+  const text = fs.readFileSync(manifestPath, 'utf-8');
+  const ext = path.extname(manifestPath).toLowerCase();
+  const raw: unknown = ext === '.json' ? JSON.parse(text) : parseYaml(text);
+
+  if (!isObject(raw) || !Array.isArray(raw.routes)) {
+    throw new Error(`Manifest ${manifestPath} must contain a "routes" list`);
+  }
+
+  const baseDir = path.dirname(path.resolve(manifestPath));
+  const defaults = parseSettings(isObject(raw.defaults) ? raw.defaults : {}, 'defaults', baseDir);
+  const routes = raw.routes.map((r: unknown, i: number) => parseRoute(r, `routes[${i}]`, baseDir));
+
+  const seen = new Set<string>();
+  for (const route of routes) {
+    if (seen.has(route.id)) {
+      throw new Error(`Duplicate route id in manifest: ${route.id}`);
+    }
+    seen.add(route.id);
+  }
+
+  return { defaults, routes };
+}
+
+/**
+ * A mapping from the manifest, before validation
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseRoute(raw: unknown, label: string, baseDir: string): BatchRoute {
+  if (!isObject(raw)) {
+    throw new Error(`${label} must be an object`);
+  }
+  if (typeof raw.id !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(raw.id)) {
+    throw new Error(`${label}.id must be a filename-safe string (letters, digits, - _ .)`);
+  }
+
+  return {
+    id: raw.id,
+    title: raw.title !== undefined ? String(raw.title) : undefined,
+    from: parseLocation(raw.from, `${label}.from`),
+    to: parseLocation(raw.to, `${label}.to`),
+    via: Array.isArray(raw.via) ? raw.via.map((v: unknown, i: number) => parseLocation(v, `${label}.via[${i}]`)) : [],
+    ...parseSettings(raw, label, baseDir),
+  };
+}
+
+/**
+ * A location with a name and coordinates, an address, or both; coordinates
+ * left out are geocoded from the address when the route is generated
+ */
+function parseLocation(raw: unknown, label: string): LocationInput {
+  if (!isObject(raw)) {
+    throw new Error(`${label} must be an object with lat, lon, name and address`);
+  }
+  if (typeof raw.name !== 'string' || !raw.name) {
+    throw new Error(`${label}.name is required`);
+  }
+  const address = raw.address ? String(raw.address) : '';
+
+  if (raw.lat === undefined && raw.lon === undefined) {
+    if (!address) {
+      throw new Error(`${label} needs lat and lon, or an address to look them up`);
+    }
+    return { name: raw.name, address };
+  }
+
+  const lat = Number(raw.lat);
+  const lon = Number(raw.lon);
+  if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    throw new Error(`${label} has invalid coordinates: ${raw.lat}, ${raw.lon}`);
+  }
+
+  return { lat, lon, name: raw.name, address };
+}
+
+/**
+ * Route settings; avoid area files are resolved against the manifest's directory
+ */
+function parseSettings(raw: Record<string, unknown>, label: string, baseDir: string): RouteSettings {
+  const settings: RouteSettings = {};
+
+  if (raw.stepsPerSegment !== undefined) {
+    const n = Number(raw.stepsPerSegment);
+    if (!Number.isInteger(n) || n < 1) {
+      throw new Error(`${label}.stepsPerSegment must be a positive integer`);
+    }
+    settings.stepsPerSegment = n;
+  }
+  if (raw.segmentStrategy !== undefined) {
+    if (!SEGMENTATION_STRATEGIES.includes(raw.segmentStrategy as SegmentationStrategy)) {
+      throw new Error(`${label}.segmentStrategy must be one of ${SEGMENTATION_STRATEGIES.join(', ')}`);
+    }
+    settings.segmentStrategy = raw.segmentStrategy as SegmentationStrategy;
+  }
+  if (raw.alternatives !== undefined) {
+    const n = Number(raw.alternatives);
+    if (!Number.isInteger(n) || n < 0) {
+      throw new Error(`${label}.alternatives must be a non-negative integer`);
+    }
+    settings.alternatives = n;
+  }
+  if (raw.returnTrip !== undefined) {
+    if (typeof raw.returnTrip !== 'boolean') {
+      throw new Error(`${label}.returnTrip must be true or false`);
+    }
+    settings.returnTrip = raw.returnTrip;
+  }
+  if (raw.units !== undefined) {
+    if (!UNIT_SYSTEMS.includes(raw.units as UnitSystem)) {
+      throw new Error(`${label}.units must be one of ${UNIT_SYSTEMS.join(', ')}`);
+    }
+    settings.units = raw.units as UnitSystem;
+  }
+  if (raw.lang !== undefined) {
+    try {
+      parseLanguages(String(raw.lang));
+    } catch (error) {
+      throw new Error(`${label}.lang: ${(error as Error).message}`);
+    }
+    settings.lang = String(raw.lang);
+  }
+  if (raw.poiCategories !== undefined) {
+    const value = Array.isArray(raw.poiCategories) ? raw.poiCategories.join(',') : String(raw.poiCategories);
+    try {
+      loadPOICategories(value);
+    } catch (error) {
+      throw new Error(`${label}.poiCategories: ${(error as Error).message}`);
+    }
+    settings.poiCategories = value;
+  }
+  if (raw.avoidAreas !== undefined) {
+    const files = (Array.isArray(raw.avoidAreas) ? raw.avoidAreas : String(raw.avoidAreas).split(','))
+      .map((file: unknown) => path.resolve(baseDir, String(file).trim()));
+    try {
+      loadAvoidAreas(files.join(','));
+    } catch (error) {
+      throw new Error(`${label}.avoidAreas: ${(error as Error).message}`);
+    }
+    settings.avoidAreas = files.join(',');
+  }
+  if (raw.pace !== undefined) {
+    try {
+      settings.pace = loadPaceProfile(String(raw.pace)).id;
+    } catch (error) {
+      throw new Error(`${label}.pace: ${(error as Error).message}`);
+    }
+  }
+  if (raw.format !== undefined) {
+    try {
+      parseOutputFormats(String(raw.format));
+    } catch (error) {
+      throw new Error(`${label}.format: ${(error as Error).message}`);
+    }
+    settings.format = String(raw.format);
+  }
+
+  return settings;
+}
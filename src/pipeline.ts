@@ -0,0 +1,198 @@
+/**
+ * Directions pipeline - fetches and processes everything a document needs
+ */
+
+import { DirectionsPlan, POI, RouteConfig, SegmentationStrategy, UnitSystem } from './types';
+import { OUTPUT_CONFIG, POI_CATEGORIES, ROUTE_CONFIG_PROCESSING, loadPOICategories, loadPaceProfile } from './config';
+import { fetchRoute, extractSteps } from './api/routing';
+import { fetchSegmentLocations } from './api/nominatim';
+import { fetchPOIsAlongRoute, fetchPOIsInBounds } from './api/overpass';
+import { createDemSource } from './api/dem';
+import { segmentRoute, getSegmentationOptions } from './processing/route';
+import { buildAlternatives } from './processing/alternatives';
+import { calculateStageTargets, buildDailyStages } from './processing/stages';
+import { findAreaCrossings, loadAvoidAreas } from './processing/avoid';
+import { buildSegmentElevations, markSteepClimbs, sumElevationProfiles } from './processing/elevation';
+import { applyPace, createPaceModel } from './processing/pace';
+import { calculateHighwayDistance, groupStepsBySegment } from './processing/steps';
+import { formatDistance, formatDuration, formatElevation } from './utils/format';
+import { boundsAround } from './utils/geo';
+import { parseLanguages } from './i18n';
+
+export interface PlanOptions {
+  /** Number of steps per segment (defaults to STEPS_PER_SEGMENT) */
+  stepsPerSegment?: number;
+  /** Segmentation strategy (defaults to SEGMENT_STRATEGY) */
+  segmentStrategy?: SegmentationStrategy;
+  /** Number of backup routes (defaults to ALTERNATIVE_ROUTES) */
+  alternatives?: number;
+  /** Also build a separately routed end → start plan (defaults to RETURN_TRIP) */
+  returnTrip?: boolean;
+  /** Unit system for distances (defaults to UNITS) */
+  units?: UnitSystem;
+  /** Language code, or "primary,secondary" for bilingual output (defaults to DIRECTIONS_LANG) */
+  lang?: string;
+  /** POI category ids, most important first (defaults to POI_CATEGORIES, or all) */
+  poiCategories?: string;
+  /** GeoJSON files of areas to route around, comma-separated (defaults to AVOID_AREAS) */
+  avoidAreas?: string;
+  /** Pace profile id (defaults to PACE_PROFILE, or fit-adult) */
+  pace?: string;
+}
+
+/**
+ * Build a directions plan for the given route configuration
+ */
+export async function buildDirectionsPlan(
+  config: RouteConfig,
+  options: PlanOptions = {}
+): Promise<DirectionsPlan> {
+  const segmentation = getSegmentationOptions({
+    stepsPerSegment: options.stepsPerSegment ?? ROUTE_CONFIG_PROCESSING.stepsPerSegment,
+    strategy: options.segmentStrategy ?? ROUTE_CONFIG_PROCESSING.segmentStrategy,
+  });
+  const units = options.units ?? OUTPUT_CONFIG.units;
+  const { lang, secondaryLang } = parseLanguages(options.lang ?? OUTPUT_CONFIG.lang);
+  const poiCategories = loadPOICategories(options.poiCategories);
+  const avoidAreas = loadAvoidAreas(options.avoidAreas);
+  const paceProfile = loadPaceProfile(options.pace);
+
+  // Elevation (when DEM tiles are configured) feeds climb totals and slope-aware pace
+  const dem = createDemSource();
+  const pace = createPaceModel(paceProfile, dem);
+
+  // Step 1: Fetch route from the configured routing provider(s)
+  console.log(`From: ${config.start.name}`);
+  if (config.via.length > 0) {
+    console.log(`Via: ${config.via.map(v => v.name).join(' → ')}`);
+  }
+  console.log(`To: ${config.end.name}`);
+  if (avoidAreas.length > 0) {
+    console.log(`Avoiding: ${[...new Set(avoidAreas.map(a => a.name))].join(', ')}`);
+  }
+  console.log(`Pace: ${paceProfile.label}${dem ? ', adjusted for slope' : ''}`);
+  console.log('');
+  const [route, ...alternativeRoutes] = (await fetchRoute(config.start, config.end, config.via, options.alternatives, avoidAreas))
+    .map(r => applyPace(r, pace));
+  console.log(`Route found: ${formatDistance(route.distance, units)}, ${formatDuration(route.duration)}\n`);
+  const crossedAreas = [...new Set(findAreaCrossings(route.coordinates, avoidAreas).map(c => c.area.name))];
+
+  // Step 2: Extract navigation steps (use router data as-is)
+  const routeSteps = extractSteps(route);
+  console.log(`Total navigation steps: ${routeSteps.length}`);
+
+  // Log step distances to debug
+  const totalStepDistance = routeSteps.reduce((sum, s) => sum + s.distance, 0);
+  console.log(`Total step distance: ${formatDistance(totalStepDistance, units)} vs route distance: ${formatDistance(route.distance, units)}`);
+
+  // Debug: show first 10 steps
+  console.log('\nFirst 10 steps:');
+  routeSteps.slice(0, 10).forEach((s, i) => {
+    console.log(`  ${i + 1}. ${s.instruction} ${s.modifier || ''} -> "${s.name || '(unnamed)'}" (${formatDistance(s.distance, units)})`);
+  });
+  console.log('');
+
+  // Step 3: Segment the route (long steps may be split at segment boundaries)
+  const { segments, steps: segmentedSteps } = segmentRoute(route, routeSteps, segmentation);
+  console.log(`Route split into ${segments.length} segments (${segmentation.strategy} strategy)\n`);
+
+  // Elevation profiles and steep climbs, when DEM tiles are configured
+  const steps = dem ? markSteepClimbs(segmentedSteps, dem) : segmentedSteps;
+  const segmentElevations = dem ? buildSegmentElevations(segments, dem) : segments.map(() => null);
+  const climb = sumElevationProfiles(segmentElevations);
+  if (climb) {
+    console.log(`Climb: ${formatElevation(climb.ascent, units)} up, ${formatElevation(climb.descent, units)} down, ${steps.filter(s => s.climb).length} steep climb(s)\n`);
+  }
+
+  // Step 4: Fetch location names (this is the slow part due to rate limiting)
+  const segmentLocations = await fetchSegmentLocations(segments);
+
+  // Step 5: Group steps by segment
+  const segmentSteps = groupStepsBySegment(steps, segments);
+
+  // Debug: show step distribution
+  console.log('\nSteps per segment:');
+  segmentSteps.forEach((steps, i) => {
+    const roads = steps.map(s => `${s.instruction}:${s.name}(${formatDistance(s.distance, units)})`).join(', ');
+    console.log(`  Segment ${i + 1}: ${steps.length} steps - ${roads || 'none'}`);
+  });
+
+  const highwayDistance = calculateHighwayDistance(steps);
+  if (highwayDistance > 0) {
+    console.error(`Warning: ${formatDistance(highwayDistance, units)} of the route is on highways or expressways`);
+  }
+
+  // Step 6: Fetch POIs along the route and assign them to segments
+  console.log('');
+  const poiResults = await fetchPOIsAlongRoute(segments, poiCategories);
+  const segmentPOIs = poiResults.map(pois => pois || []);
+
+  // Lookups that failed even after retries are flagged on their segment
+  const segmentDataGaps = segments.map((_, i) => ({
+    placeNames: segmentLocations[i].lookupFailed === true,
+    pois: poiResults[i] === null,
+  }));
+  const incomplete = segments.filter((_, i) => segmentDataGaps[i].placeNames || segmentDataGaps[i].pois);
+  if (incomplete.length > 0) {
+    console.error(`Warning: data incomplete for segment(s) ${incomplete.map(s => s.index).join(', ')}`);
+  }
+
+  // Step 7: Split multi-day routes into daily stages ending near shelter
+  // (every shelter category, whether or not it's shown on the maps)
+  const shelterCategories = POI_CATEGORIES.filter(c => ROUTE_CONFIG_PROCESSING.shelterIconTypes.includes(c.iconType));
+  const stageTargets = calculateStageTargets(route, pace);
+  const sheltersByTarget: POI[][] = [];
+  for (const target of stageTargets) {
+    const bounds = boundsAround(target.coord.lat, target.coord.lon, ROUTE_CONFIG_PROCESSING.shelterSnapToleranceMeters);
+    try {
+      sheltersByTarget.push(await fetchPOIsInBounds(bounds, shelterCategories));
+    } catch (error) {
+      console.error(`  Shelter search failed: ${(error as Error).message}`);
+      sheltersByTarget.push([]);
+    }
+  }
+  const stages = buildDailyStages(route, steps, segments, stageTargets, sheltersByTarget, pace);
+  stages.forEach(stage => {
+    const overnight = stage.overnight ? `overnight at ${stage.overnight.name}` : stage.day < stages.length ? 'no shelter found' : 'arrive';
+    console.log(`Day ${stage.day}: ${formatDistance(stage.distance, units)}, ${formatDuration(stage.duration)} - ${overnight}`);
+  });
+
+  // Step 8: Work out where backup routes leave and rejoin the primary route
+  const alternatives = buildAlternatives(route, alternativeRoutes);
+  alternatives.forEach(alt => {
+    console.log(`${alt.label}: ${formatDistance(alt.route.distance, units)}, ${alt.divergences.length} divergence(s)`);
+  });
+
+  // Step 9: Route the return trip from scratch - one-way streets and turns
+  // differ, so the forward steps can't simply be reversed
+  const includeReturnTrip = options.returnTrip ?? ROUTE_CONFIG_PROCESSING.includeReturnTrip;
+  let returnTrip: DirectionsPlan | undefined;
+  if (includeReturnTrip) {
+    console.log('\n--- Return trip ---\n');
+    returnTrip = await buildDirectionsPlan(
+      { start: config.end, end: config.start, via: [...config.via].reverse() },
+      { ...options, returnTrip: false }
+    );
+  }
+
+  return {
+    config,
+    route,
+    steps,
+    segments,
+    segmentLocations,
+    segmentSteps,
+    segmentPOIs,
+    segmentDataGaps,
+    segmentElevations,
+    avoidAreas,
+    crossedAreas,
+    alternatives,
+    stages,
+    paceProfile,
+    units,
+    lang,
+    secondaryLang,
+    returnTrip,
+  };
+}
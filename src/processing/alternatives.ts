@@ -0,0 +1,137 @@
+/**
+ * Alternative route analysis - where backup plans leave and rejoin the primary route
+ */
+
+import { AlternativeRoute, Route, RouteDivergence, RouteStep } from '../types';
+import { ROUTE_CONFIG_PROCESSING } from '../config';
+import { createPathIndex, densifyPath, findOnPath } from '../utils/geo';
+
+/**
+ * Build labelled backup plans (Plan B, Plan C, ...) from alternative routes
+ */
+export function buildAlternatives(primary: Route, alternatives: Route[]): AlternativeRoute[] {
+  const primarySteps = primary.legs.flatMap(leg => leg.steps);
+
+  return alternatives.map((route, i) => {
+    const steps = route.legs.flatMap(leg => leg.steps);
+    const { divergences, offRouteSteps } = findDivergences(primary, primarySteps, route, steps);
+
+    return {
+      label: `Plan ${String.fromCharCode('B'.charCodeAt(0) + i)}`,
+      route,
+      steps: offRouteSteps,
+      divergences,
+    };
+  });
+}
+
+/**
+ * Walk along the alternative and record each stretch that leaves the primary route
+ */
+function findDivergences(
+  primary: Route,
+  primarySteps: RouteStep[],
+  alternative: Route,
+  alternativeSteps: RouteStep[]
+): { divergences: RouteDivergence[]; offRouteSteps: RouteStep[] } {
+  const { routeMatchToleranceMeters, minDivergenceMeters } = ROUTE_CONFIG_PROCESSING;
+  const primaryIndex = createPathIndex(primary.coordinates, routeMatchToleranceMeters);
+  const points = densifyPath(alternative.coordinates, routeMatchToleranceMeters / 2);
+
+  // Off-primary stretches as ranges of distance along the alternative
+  const stretches: Array<{ from: number; to: number; divergeIdx: number; rejoinIdx: number | null }> = [];
+  let lastOnIdx = 0;
+  let offStartIdx: number | null = null;
+
+  for (let i = 0; i < points.length; i++) {
+    const [lon, lat] = points[i].coord;
+    const onPrimary = findOnPath(primaryIndex, lon, lat) !== null;
+
+    if (onPrimary) {
+      if (offStartIdx !== null) {
+        stretches.push({ from: points[lastOnIdx].along, to: points[i].along, divergeIdx: lastOnIdx, rejoinIdx: i });
+        offStartIdx = null;
+      }
+      lastOnIdx = i;
+    } else if (offStartIdx === null) {
+      offStartIdx = i;
+    }
+  }
+  if (offStartIdx !== null && points.length > 0) {
+    stretches.push({ from: points[lastOnIdx].along, to: points[points.length - 1].along, divergeIdx: lastOnIdx, rejoinIdx: null });
+  }
+
+  // Short stretches are usually just parallel geometry for the same road
+  const significant = stretches.filter(s => s.to - s.from >= minDivergenceMeters);
+
+  const primaryStepAlong = primarySteps.map(step => findOnPath(primaryIndex, step.location[0], step.location[1]));
+  const altStepAlong = alternativeSteps.map(step => nearestAlong(points, step.location));
+
+  const offRouteStepIdx = new Set<number>();
+
+  const divergences = significant.map(stretch => {
+    const divergeCoord = points[stretch.divergeIdx].coord;
+    const rejoinCoord = stretch.rejoinIdx !== null ? points[stretch.rejoinIdx].coord : null;
+    const divergeAlongPrimary = findOnPath(primaryIndex, divergeCoord[0], divergeCoord[1]) ?? 0;
+    const rejoinAlongPrimary = rejoinCoord ? findOnPath(primaryIndex, rejoinCoord[0], rejoinCoord[1]) : null;
+
+    // Road taken when leaving: the last alternative step starting at (or just before) the divergence.
+    // Steps after it, up to the rejoin point, are the turns that differ from the primary route.
+    let leaveIdx = 0;
+    altStepAlong.forEach((along, idx) => {
+      if (along <= stretch.from + routeMatchToleranceMeters) leaveIdx = idx;
+    });
+    altStepAlong.forEach((along, idx) => {
+      if (idx >= leaveIdx && along < stretch.to) offRouteStepIdx.add(idx);
+    });
+    const divergeName = alternativeSteps[leaveIdx] ? getRoadName(alternativeSteps[leaveIdx]) : '';
+
+    // Road where it comes back: the primary step covering the rejoin point
+    let rejoinName = '';
+    if (rejoinAlongPrimary !== null) {
+      let rejoinStep: RouteStep | undefined;
+      primarySteps.forEach((step, idx) => {
+        const along = primaryStepAlong[idx];
+        if (along !== null && along <= rejoinAlongPrimary) rejoinStep = step;
+      });
+      rejoinName = rejoinStep ? getRoadName(rejoinStep) : '';
+    }
+
+    return {
+      divergeCoord,
+      rejoinCoord,
+      divergeAlongPrimary,
+      rejoinAlongPrimary,
+      divergeName,
+      rejoinName,
+      distance: stretch.to - stretch.from,
+    };
+  });
+
+  const offRouteSteps = alternativeSteps.filter((_, idx) => offRouteStepIdx.has(idx));
+
+  return { divergences, offRouteSteps };
+}
+
+/**
+ * Distance along a densified path of the point nearest to coord
+ */
+function nearestAlong(
+  points: Array<{ coord: [number, number]; along: number }>,
+  coord: [number, number]
+): number {
+  let best = 0;
+  let bestDist = Infinity;
+  for (const p of points) {
+    const d = Math.pow(p.coord[0] - coord[0], 2) + Math.pow(p.coord[1] - coord[1], 2);
+    if (d < bestDist) {
+      bestDist = d;
+      best = p.along;
+    }
+  }
+  return best;
+}
+
+function getRoadName(step: RouteStep): string {
+  return step.name?.trim() || step.ref?.trim() || '';
+}
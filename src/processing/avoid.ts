@@ -0,0 +1,189 @@
+/**
+ * Avoid areas - GeoJSON polygons the route must stay out of, and the detour
+ * via points that route around them
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AvoidArea, Coordinate } from '../types';
+import { isPointInPolygon, segmentsIntersect } from '../utils/geo';
+
+// Where a route passes through an area: route coordinate indices either side of it
+export interface AreaCrossing {
+  area: AvoidArea;
+  entryIndex: number;
+  exitIndex: number;
+}
+
+// The parts of a GeoJSON file read here; everything else is ignored
+interface GeoJsonGeometry {
+  type?: string;
+  coordinates?: unknown;
+}
+
+interface GeoJsonFeature {
+  geometry?: GeoJsonGeometry | null;
+  properties?: { name?: unknown } | null;
+}
+
+interface GeoJsonObject extends GeoJsonGeometry, GeoJsonFeature {
+  features?: unknown;
+}
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Load avoid areas from comma-separated GeoJSON file paths (default: AVOID_AREAS)
+ * Relative paths are resolved against baseDir
+ */
+export function loadAvoidAreas(
+  value: string | undefined = process.env.AVOID_AREAS,
+  baseDir: string = process.cwd()
+): AvoidArea[] {
+  if (!value) return [];
+
+  return value.split(',').map(s => s.trim()).filter(Boolean).flatMap(file => {
+    const filePath = path.resolve(baseDir, file);
+    let geojson: unknown;
+    try {
+      geojson = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot read avoid areas from ${file}: ${(error as Error).message}`);
+    }
+    return parseAvoidAreas(geojson, path.basename(file, path.extname(file)));
+  });
+}
+
+/**
+ * Polygons from a GeoJSON FeatureCollection, Feature, Polygon or MultiPolygon
+ * Each area is named after its feature's "name" property, or the source and a number
+ */
+export function parseAvoidAreas(geojson: unknown, source: string): AvoidArea[] {
+  const root: GeoJsonObject = isObject(geojson) ? geojson : {};
+  const features: GeoJsonFeature[] = root.type === 'FeatureCollection'
+    ? (Array.isArray(root.features) ? root.features : []).map(f => (isObject(f) ? f : {}))
+    : root.type === 'Feature' ? [root] : [{ geometry: root, properties: {} }];
+
+  const areas: AvoidArea[] = [];
+  features.forEach((feature, i) => {
+    const geometry = isObject(feature.geometry) ? feature.geometry : undefined;
+    const polygons: unknown[] = geometry?.type === 'Polygon' ? [geometry.coordinates]
+      : geometry?.type === 'MultiPolygon' ? (Array.isArray(geometry.coordinates) ? geometry.coordinates : [geometry.coordinates])
+      : [];
+    const name = feature.properties?.name ? String(feature.properties.name) : `${source} ${i + 1}`;
+
+    for (const polygon of polygons) {
+      if (!Array.isArray(polygon) || !polygon.every(isValidRing)) {
+        throw new Error(`${source}: ${name} has an invalid polygon (rings need 4+ [lon, lat] positions)`);
+      }
+      areas.push({ name, rings: polygon.map(ring => ring.map(p => [Number(p[0]), Number(p[1])] as [number, number])) });
+    }
+  });
+
+  if (areas.length === 0) {
+    throw new Error(`${source}: no Polygon or MultiPolygon features`);
+  }
+  return areas;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidRing(ring: unknown): ring is unknown[][] {
+  return Array.isArray(ring) && ring.length >= 4 && ring.every(p =>
+    Array.isArray(p) && Math.abs(Number(p[0])) <= 180 && Math.abs(Number(p[1])) <= 90
+  );
+}
+
+/**
+ * Areas a path passes through, in the order it reaches them
+ */
+export function findAreaCrossings(coordinates: Array<[number, number]>, areas: AvoidArea[]): AreaCrossing[] {
+  const crossings: AreaCrossing[] = [];
+
+  for (const area of areas) {
+    const box = ringBox(area.rings[0]);
+    let entryIndex = -1;
+    let exitIndex = -1;
+
+    for (let i = 0; i < coordinates.length - 1; i++) {
+      const a = coordinates[i];
+      const b = coordinates[i + 1];
+      // Skip edges nowhere near the area
+      if (Math.max(a[0], b[0]) < box.minLon || Math.min(a[0], b[0]) > box.maxLon ||
+        Math.max(a[1], b[1]) < box.minLat || Math.min(a[1], b[1]) > box.maxLat) continue;
+
+      const crosses = isPointInPolygon(a[0], a[1], area.rings) ||
+        isPointInPolygon(b[0], b[1], area.rings) ||
+        area.rings.some(ring => ring.some((p, j) => j > 0 && segmentsIntersect(a, b, ring[j - 1], p)));
+      if (crosses) {
+        if (entryIndex < 0) entryIndex = i;
+        exitIndex = i + 1;
+      }
+    }
+
+    if (entryIndex >= 0) {
+      crossings.push({ area, entryIndex, exitIndex });
+    }
+  }
+
+  return crossings.sort((a, b) => a.entryIndex - b.entryIndex);
+}
+
+/**
+ * Candidate detour points either side of a crossing: level with the middle of
+ * the crossing, offsetMeters beyond the area's furthest extent on that side
+ * Points that fall inside another avoid area are left out
+ */
+export function chooseDetourPoints(
+  coordinates: Array<[number, number]>,
+  crossing: AreaCrossing,
+  offsetMeters: number,
+  areas: AvoidArea[]
+): Coordinate[] {
+  const entry = coordinates[crossing.entryIndex];
+  const exit = coordinates[crossing.exitIndex];
+  const origin: [number, number] = [(entry[0] + exit[0]) / 2, (entry[1] + exit[1]) / 2];
+  const lonScale = METERS_PER_DEGREE * Math.cos((origin[1] * Math.PI) / 180);
+
+  // Work in meters around the middle of the crossing
+  const toLocal = ([lon, lat]: [number, number]): [number, number] =>
+    [(lon - origin[0]) * lonScale, (lat - origin[1]) * METERS_PER_DEGREE];
+  const [dx, dy] = toLocal(exit);
+  const length = Math.hypot(dx, dy);
+  // Perpendicular to the direction of travel (east-west fallback for a single point)
+  const normal: [number, number] = length > 0 ? [-dy / length, dx / length] : [0, 1];
+
+  const points: Coordinate[] = [];
+  for (const side of [1, -1]) {
+    const extent = Math.max(0, ...crossing.area.rings[0].map(p => {
+      const [x, y] = toLocal(p);
+      return side * (x * normal[0] + y * normal[1]);
+    }));
+    const distance = side * (extent + offsetMeters);
+    const lon = origin[0] + (normal[0] * distance) / lonScale;
+    const lat = origin[1] + (normal[1] * distance) / METERS_PER_DEGREE;
+    if (!areas.some(area => isPointInPolygon(lon, lat, area.rings))) {
+      points.push({ lat, lon });
+    }
+  }
+  return points;
+}
+
+/**
+ * Whether an area's outer ring overlaps a lon/lat box - to skip drawing areas off the map
+ */
+export function isAreaInBox(
+  area: AvoidArea,
+  box: { minLon: number; maxLon: number; minLat: number; maxLat: number }
+): boolean {
+  const own = ringBox(area.rings[0]);
+  return own.maxLon >= box.minLon && own.minLon <= box.maxLon && own.maxLat >= box.minLat && own.minLat <= box.maxLat;
+}
+
+function ringBox(ring: Array<[number, number]>): { minLon: number; maxLon: number; minLat: number; maxLat: number } {
+  const lons = ring.map(p => p[0]);
+  const lats = ring.map(p => p[1]);
+  return { minLon: Math.min(...lons), maxLon: Math.max(...lons), minLat: Math.min(...lats), maxLat: Math.max(...lats) };
+}
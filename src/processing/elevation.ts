@@ -0,0 +1,141 @@
+/**
+ * Elevation processing - segment profiles, total climb and steep climbs
+ */
+
+import { ElevationProfile, RouteSegment, RouteStep, StepClimb } from '../types';
+import { ELEVATION_CONFIG } from '../config';
+import { ElevationSource } from '../api/dem';
+import { densifyPath } from '../utils/geo';
+
+// A rise from a low point to the following high point, as sample indices
+interface Climb {
+  start: number;
+  end: number;
+}
+
+/**
+ * Elevation profile along a path, sampled every sampleSpacingMeters
+ * Points without DEM coverage are left out; null if fewer than two remain
+ */
+export function buildElevationProfile(coordinates: Array<[number, number]>, source: ElevationSource): ElevationProfile | null {
+  const distances: number[] = [];
+  const elevations: number[] = [];
+  for (const { coord, along } of densifyPath(coordinates, ELEVATION_CONFIG.sampleSpacingMeters)) {
+    const elevation = source.elevationAt(coord[0], coord[1]);
+    if (elevation !== null) {
+      distances.push(along);
+      elevations.push(elevation);
+    }
+  }
+  if (elevations.length < 2) return null;
+
+  return { distances, elevations, ...calculateClimb(elevations) };
+}
+
+/**
+ * Profiles for every segment; logs segments without DEM coverage
+ */
+export function buildSegmentElevations(segments: RouteSegment[], source: ElevationSource): Array<ElevationProfile | null> {
+  const profiles = segments.map(segment => buildElevationProfile(segment.coordinates, source));
+  const missing = segments.filter((_, i) => profiles[i] === null);
+  if (missing.length > 0) {
+    console.error(`Warning: no elevation data for segment(s) ${missing.map(s => s.index).join(', ')} - add DEM tiles covering them`);
+  }
+  return profiles;
+}
+
+/**
+ * Total ascent and descent, ignoring changes smaller than climbThresholdMeters
+ * so DEM noise on flat ground doesn't add up
+ */
+export function calculateClimb(elevations: number[]): { ascent: number; descent: number } {
+  let ascent = 0;
+  let descent = 0;
+  let reference = elevations[0];
+  for (const elevation of elevations) {
+    const change = elevation - reference;
+    if (Math.abs(change) >= ELEVATION_CONFIG.climbThresholdMeters) {
+      if (change > 0) ascent += change;
+      else descent -= change;
+      reference = elevation;
+    }
+  }
+  return { ascent, descent };
+}
+
+/**
+ * Ascent and descent over a whole route, from its segment profiles
+ * Null when no segment has elevation data
+ */
+export function sumElevationProfiles(profiles: Array<ElevationProfile | null>): { ascent: number; descent: number } | null {
+  const known = profiles.filter((p): p is ElevationProfile => p !== null);
+  if (known.length === 0) return null;
+  return {
+    ascent: known.reduce((sum, p) => sum + p.ascent, 0),
+    descent: known.reduce((sum, p) => sum + p.descent, 0),
+  };
+}
+
+/**
+ * Mark the route's steepest climbs on their steps
+ * Each step's steepest rise is a candidate if it gains minSteepClimbMeters at
+ * steepGradePercent or more; the maxSteepClimbs steepest are kept
+ */
+export function markSteepClimbs(steps: RouteStep[], source: ElevationSource): RouteStep[] {
+  const candidates = steps.map(step => (step.geometry ? findSteepestClimb(step.geometry, source) : null));
+  const kept = new Set(
+    candidates
+      .map((climb, index) => ({ climb, index }))
+      .filter((c): c is { climb: StepClimb; index: number } => c.climb !== null)
+      .sort((a, b) => b.climb.grade - a.climb.grade)
+      .slice(0, ELEVATION_CONFIG.maxSteepClimbs)
+      .map(c => c.index)
+  );
+
+  return steps.map((step, i) => (kept.has(i) ? { ...step, climb: candidates[i]! } : step));
+}
+
+function findSteepestClimb(geometry: Array<[number, number]>, source: ElevationSource): StepClimb | null {
+  const profile = buildElevationProfile(geometry, source);
+  if (!profile) return null;
+
+  let steepest: StepClimb | null = null;
+  for (const { start, end } of findClimbs(profile.elevations)) {
+    const ascent = profile.elevations[end] - profile.elevations[start];
+    const length = profile.distances[end] - profile.distances[start];
+    const grade = length > 0 ? (ascent / length) * 100 : 0;
+    if (ascent >= ELEVATION_CONFIG.minSteepClimbMeters && grade >= ELEVATION_CONFIG.steepGradePercent &&
+      (!steepest || grade > steepest.grade)) {
+      steepest = { ascent, grade: Math.round(grade) };
+    }
+  }
+  return steepest;
+}
+
+/**
+ * Continuous rises: from a low point to the highest point before the path
+ * drops back by climbThresholdMeters
+ */
+function findClimbs(elevations: number[]): Climb[] {
+  const threshold = ELEVATION_CONFIG.climbThresholdMeters;
+  const climbs: Climb[] = [];
+  let low = 0;
+  let high = 0;
+
+  for (let i = 1; i < elevations.length; i++) {
+    if (elevations[high] - elevations[i] >= threshold) {
+      if (elevations[high] - elevations[low] >= threshold) climbs.push({ start: low, end: high });
+      low = i;
+      high = i;
+    } else if (elevations[i] <= elevations[low]) {
+      // Still level or lower: the climb hasn't started yet
+      low = i;
+      high = i;
+    } else if (elevations[i] > elevations[high]) {
+      high = i;
+    }
+  }
+  if (elevations[high] - elevations[low] >= threshold) climbs.push({ start: low, end: high });
+
+  return climbs;
+}
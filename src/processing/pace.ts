@@ -0,0 +1,78 @@
+/**
+ * Walking pace - durations from the selected pace profile, adjusted for slope
+ * with Tobler's hiking function where elevation data is available
+ */
+
+import { PaceProfile, Route } from '../types';
+import { ELEVATION_CONFIG } from '../config';
+import { ElevationSource } from '../api/dem';
+import { densifyPath } from '../utils/geo';
+import { addRestBreaks } from '../utils/format';
+
+export interface PaceModel {
+  profile: PaceProfile;
+  /** Walking time in seconds for `distance` meters along `path`, rest breaks included */
+  duration(distance: number, path?: Array<[number, number]>): number;
+}
+
+/**
+ * Pace model for a profile; paths are walked on the flat without a DEM source
+ */
+export function createPaceModel(profile: PaceProfile, source: ElevationSource | null): PaceModel {
+  return {
+    profile,
+    duration: (distance, path) => {
+      const factor = source && path && path.length >= 2 ? calculateSlopeFactor(path, source) : 1;
+      return addRestBreaks((distance * factor) / profile.speedMps, profile);
+    },
+  };
+}
+
+/**
+ * Re-time a route's steps, legs and total with the pace model
+ * Leg and route durations become the sums of their steps
+ */
+export function applyPace(route: Route, pace: PaceModel): Route {
+  const legs = route.legs.map(leg => {
+    if (leg.steps.length === 0) return { ...leg, duration: pace.duration(leg.distance) };
+    const steps = leg.steps.map(step => ({ ...step, duration: pace.duration(step.distance, step.geometry) }));
+    return { ...leg, steps, duration: steps.reduce((sum, s) => sum + s.duration, 0) };
+  });
+
+  const duration = legs.some(leg => leg.steps.length > 0)
+    ? legs.reduce((sum, leg) => sum + leg.duration, 0)
+    : pace.duration(route.distance, route.coordinates);
+
+  return { ...route, legs, duration };
+}
+
+/**
+ * Time to walk a path relative to the same distance on the flat
+ * Stretches without DEM coverage count as flat
+ */
+function calculateSlopeFactor(path: Array<[number, number]>, source: ElevationSource): number {
+  const points = densifyPath(path, ELEVATION_CONFIG.sampleSpacingMeters);
+  let flatEquivalent = 0;
+  let previous = source.elevationAt(points[0].coord[0], points[0].coord[1]);
+
+  for (let i = 1; i < points.length; i++) {
+    const length = points[i].along - points[i - 1].along;
+    const elevation = source.elevationAt(points[i].coord[0], points[i].coord[1]);
+    const speed = previous !== null && elevation !== null && length > 0
+      ? toblerSpeedRatio((elevation - previous) / length)
+      : 1;
+    flatEquivalent += length / speed;
+    previous = elevation;
+  }
+
+  const total = points[points.length - 1].along;
+  return total > 0 ? flatEquivalent / total : 1;
+}
+
+/**
+ * Tobler's hiking function, scaled so walking on the flat is 1:
+ * fastest on a gentle 5% descent, slowing steeply either side
+ */
+function toblerSpeedRatio(grade: number): number {
+  return Math.exp(-3.5 * (Math.abs(grade + 0.05) - 0.05));
+}
@@ -2,119 +2,334 @@
  * Route processing and segmentation
  */
 
-import { OSRMRoute, RouteSegment, RouteStep, Bounds } from '../types';
+import { Route, RouteSegment, RouteStep, SegmentationOptions } from '../types';
 import { ROUTE_CONFIG_PROCESSING } from '../config';
-import { calculateBounds, calculatePathDistance } from '../utils/geo';
-import { calculateWalkingDuration } from '../utils/format';
+import { calculateBounds, calculatePathDistance, haversineDistance } from '../utils/geo';
+
+export interface SegmentationResult {
+  segments: RouteSegment[];
+  /** Steps the segments index into - long steps may have been split at segment boundaries */
+  steps: RouteStep[];
+}
+
+// Don't split a step if the piece left over would be shorter than this (meters)
+const MIN_SPLIT_DISTANCE = 50;
+
+/**
+ * Get segmentation options from config, with overrides
+ */
+export function getSegmentationOptions(overrides: Partial<SegmentationOptions> = {}): SegmentationOptions {
+  const {
+    stepsPerSegment,
+    segmentStrategy,
+    segmentTargetMeters,
+    segmentTargetMinutes,
+    segmentMinMeters,
+    segmentMaxMeters,
+  } = ROUTE_CONFIG_PROCESSING;
+
+  return {
+    strategy: segmentStrategy,
+    stepsPerSegment,
+    targetMeters: segmentTargetMeters,
+    targetMinutes: segmentTargetMinutes,
+    minMeters: segmentMinMeters,
+    maxMeters: segmentMaxMeters,
+    ...overrides,
+  };
+}
 
 /**
- * Divide route into segments based on number of steps per segment
- * Each segment's distance is the sum of its steps' distances
+ * Divide route into segments using the selected strategy:
+ * - steps: a fixed number of steps per segment
+ * - distance: a target distance per segment
+ * - time: a target walking time per segment
+ * - hybrid: a fixed number of steps, but never shorter than minMeters or longer than maxMeters
+ * Each segment's distance and duration are the sums of its steps'
  */
 export function segmentRoute(
-  route: OSRMRoute,
-  steps?: RouteStep[]
-): RouteSegment[] {
+  route: Route,
+  steps?: RouteStep[],
+  options: SegmentationOptions = getSegmentationOptions()
+): SegmentationResult {
   if (!steps || steps.length === 0) {
     // Fallback: create a single segment from route coordinates
-    const coordinates = route.geometry.coordinates;
+    const coordinates = route.coordinates;
     const bounds = calculateBounds(coordinates);
     const distance = calculatePathDistance(coordinates);
-    return [{
-      index: 1,
-      coordinates,
-      startCoord: coordinates[0],
-      endCoord: coordinates[coordinates.length - 1],
-      bounds,
-      distance,
-      duration: calculateWalkingDuration(distance),
-    }];
+    return {
+      segments: [{
+        index: 1,
+        coordinates,
+        startCoord: coordinates[0],
+        endCoord: coordinates[coordinates.length - 1],
+        bounds,
+        distance,
+        duration: route.duration,
+      }],
+      steps: [],
+    };
   }
 
-  const { stepsPerSegment } = ROUTE_CONFIG_PROCESSING;
-  return segmentBySteps(steps, stepsPerSegment);
+  // Steps are the legs' steps concatenated in order; if they don't line up
+  // with the route's legs, treat the whole route as a single leg
+  const legStepCounts = route.legs.map(leg => leg.steps.length);
+  const stepsMatchLegs = legStepCounts.reduce((sum, n) => sum + n, 0) === steps.length;
+  const legs: RouteStep[][] = [];
+  if (!stepsMatchLegs || route.legs.length <= 1) {
+    legs.push(steps);
+  } else {
+    let offset = 0;
+    for (const count of legStepCounts) {
+      legs.push(steps.slice(offset, offset + count));
+      offset += count;
+    }
+  }
+
+  // Segment each leg separately so no segment spans a stop,
+  // keeping segment numbering continuous across legs
+  const segments: RouteSegment[] = [];
+  const outSteps: RouteStep[] = [];
+  legs.forEach((legSteps, legIndex) => {
+    const groups = options.strategy === 'steps'
+      ? groupByStepCount(legSteps, options.stepsPerSegment)
+      : groupBySize(legSteps, options);
+
+    for (const group of groups) {
+      const firstIdx = outSteps.length;
+      outSteps.push(...group);
+      segments.push(buildSegment(group, firstIdx, segments.length + 1, legIndex));
+    }
+  });
+
+  return { segments, steps: outSteps };
 }
 
 /**
- * Segment by grouping steps together
- * Each segment's distance is the sum of its steps' distances
- * Segment coordinates are derived from the steps' geometries
+ * Group a fixed number of steps per segment
  */
-function segmentBySteps(
-  steps: RouteStep[],
-  stepsPerSegment: number
-): RouteSegment[] {
-  const segments: RouteSegment[] = [];
-  let stepIdx = 0;
-  let segmentIndex = 1;
-
-  while (stepIdx < steps.length) {
-    // Calculate how many steps go in this segment
-    const remainingSteps = steps.length - stepIdx;
-    const segStepCount = Math.min(stepsPerSegment, remainingSteps);
-    const startStepIdx = stepIdx;
-    const endStepIdx = stepIdx + segStepCount - 1;
-
-    // Get the steps for this segment
-    const segmentSteps = steps.slice(startStepIdx, endStepIdx + 1);
-
-    // Calculate segment distance from sum of step distances
-    const distance = segmentSteps.reduce((sum, step) => sum + step.distance, 0);
-    const duration = calculateWalkingDuration(distance);
-
-    // Build coordinates from step geometries
-    const coordinates: Array<[number, number]> = [];
-    for (const step of segmentSteps) {
-      if (step.geometry && step.geometry.length > 0) {
-        // Add all coordinates from this step's geometry
-        for (const coord of step.geometry) {
-          coordinates.push(coord);
-        }
-      } else {
-        // Fallback: use step location
-        coordinates.push(step.location);
+function groupByStepCount(steps: RouteStep[], stepsPerSegment: number): RouteStep[][] {
+  const groups: RouteStep[][] = [];
+  for (let i = 0; i < steps.length; i += stepsPerSegment) {
+    groups.push(steps.slice(i, i + stepsPerSegment));
+  }
+  return groups;
+}
+
+/**
+ * Group steps by size - distance, or walking time for the time strategy
+ * (the distance, time and hybrid strategies)
+ * Steps that would take a segment past its cap are split mid-geometry,
+ * so no segment exceeds the cap
+ */
+function groupBySize(steps: RouteStep[], options: SegmentationOptions): RouteStep[][] {
+  const { target, cap, size, shouldClose } = getSizeRules(options);
+  const groups: RouteStep[][] = [];
+  let current: RouteStep[] = [];
+  let currentSize = 0;
+
+  const close = () => {
+    if (current.length > 0) groups.push(current);
+    current = [];
+    currentSize = 0;
+  };
+
+  const queue = [...steps];
+  while (queue.length > 0) {
+    const step = queue.shift()!;
+    const stepSize = size(step);
+
+    if (currentSize + stepSize > cap) {
+      // The part of the step that still fits, in meters
+      const remaining = step.distance * ((cap - currentSize) / stepSize);
+      if (remaining >= MIN_SPLIT_DISTANCE && step.distance - remaining >= MIN_SPLIT_DISTANCE && canSplit(step)) {
+        const [head, tail] = splitStep(step, remaining);
+        current.push(head);
+        close();
+        queue.unshift(tail);
+        continue;
+      }
+      if (current.length > 0) {
+        // Start a new segment and reconsider this step there
+        close();
+        queue.unshift(step);
+        continue;
       }
     }
 
-    // Remove duplicate consecutive coordinates
-    const uniqueCoords: Array<[number, number]> = [];
-    for (let j = 0; j < coordinates.length; j++) {
-      if (j === 0 || coordinates[j][0] !== coordinates[j - 1][0] || coordinates[j][1] !== coordinates[j - 1][1]) {
-        uniqueCoords.push(coordinates[j]);
-      }
+    current.push(step);
+    currentSize += stepSize;
+    if (shouldClose(current.length, currentSize)) {
+      close();
+    }
+  }
+  close();
+
+  // Don't leave a sliver (e.g. just the arrival) as its own segment,
+  // unless adding it would take the previous segment past the cap
+  if (groups.length > 1) {
+    const last = groups[groups.length - 1];
+    const previous = groups[groups.length - 2];
+    const sum = (group: RouteStep[], measure: (step: RouteStep) => number) => group.reduce((total, s) => total + measure(s), 0);
+    const lastSize = sum(last, size);
+    if (sum(last, s => s.distance) < MIN_SPLIT_DISTANCE * 2 && lastSize < target / 4 && sum(previous, size) + lastSize <= cap) {
+      groups.pop();
+      previous.push(...last);
     }
+  }
 
-    // Ensure we have at least start and end coordinates
-    if (uniqueCoords.length === 0) {
-      uniqueCoords.push(segmentSteps[0].location);
-      if (segmentSteps.length > 1) {
-        uniqueCoords.push(segmentSteps[segmentSteps.length - 1].location);
-      }
+  return groups;
+}
+
+/**
+ * Target, cap, step size and closing rule for each size-based strategy
+ * Sizes are meters, or seconds of walking for the time strategy
+ */
+function getSizeRules(options: SegmentationOptions): {
+  target: number;
+  cap: number;
+  size: (step: RouteStep) => number;
+  shouldClose: (stepCount: number, size: number) => boolean;
+} {
+  const distance = (step: RouteStep) => step.distance;
+  switch (options.strategy) {
+    case 'time': {
+      // Step durations already allow for slope and the pace profile
+      const target = options.targetMinutes * 60;
+      return { target, cap: target, size: step => step.duration, shouldClose: (_, t) => t >= target };
     }
+    case 'hybrid':
+      return {
+        target: options.maxMeters,
+        cap: options.maxMeters,
+        size: distance,
+        shouldClose: (count, d) => (count >= options.stepsPerSegment && d >= options.minMeters) || d >= options.maxMeters,
+      };
+    case 'distance':
+    default:
+      return { target: options.targetMeters, cap: options.targetMeters, size: distance, shouldClose: (_, d) => d >= options.targetMeters };
+  }
+}
+
+function canSplit(step: RouteStep): boolean {
+  return !!step.geometry && step.geometry.length >= 2 && step.distance > 0;
+}
 
-    const bounds = calculateBounds(uniqueCoords);
-    const stepRange: [number, number] = [startStepIdx, endStepIdx];
-    const stepIndices: number[] = [];
-    for (let j = startStepIdx; j <= endStepIdx; j++) {
-      stepIndices.push(j);
+/**
+ * Split a step after `meters`; the second part becomes a "continue" on the same road
+ * The step's duration is shared in proportion to distance
+ */
+function splitStep(step: RouteStep, meters: number): [RouteStep, RouteStep] {
+  const geometry = step.geometry!;
+  // Step distance and geometry length can differ slightly - split proportionally
+  const geometryLength = calculatePathDistance(geometry);
+  const splitAt = geometryLength * (meters / step.distance);
+
+  const head: Array<[number, number]> = [geometry[0]];
+  let tail: Array<[number, number]> = [];
+  let along = 0;
+
+  for (let i = 1; i < geometry.length; i++) {
+    const [lon1, lat1] = geometry[i - 1];
+    const [lon2, lat2] = geometry[i];
+    const dist = haversineDistance(lat1, lon1, lat2, lon2);
+
+    if (along + dist >= splitAt) {
+      const t = dist > 0 ? (splitAt - along) / dist : 0;
+      const point: [number, number] = [lon1 + (lon2 - lon1) * t, lat1 + (lat2 - lat1) * t];
+      head.push(point);
+      tail = [point, ...geometry.slice(i)];
+      break;
     }
 
-    segments.push({
-      index: segmentIndex,
-      coordinates: uniqueCoords,
-      startCoord: uniqueCoords[0],
-      endCoord: uniqueCoords[uniqueCoords.length - 1],
-      bounds,
-      distance, // This is now the sum of step distances
-      duration,
-      stepRange,
-      stepIndices,
-    });
-
-    stepIdx += segStepCount;
-    segmentIndex++;
+    head.push(geometry[i]);
+    along += dist;
+  }
+
+  if (tail.length === 0) {
+    const last = geometry[geometry.length - 1];
+    tail = [last, last];
   }
 
-  return segments;
+  const restDistance = step.distance - meters;
+  const headDuration = step.duration * (meters / step.distance);
+  return [
+    { ...step, distance: meters, duration: headDuration, geometry: head },
+    {
+      instruction: 'continue',
+      modifier: 'straight',
+      name: step.name,
+      ref: step.ref,
+      distance: restDistance,
+      duration: step.duration - headDuration,
+      location: tail[0],
+      geometry: tail,
+    },
+  ];
 }
 
+/**
+ * Build a segment from its steps
+ * Segment coordinates are derived from the steps' geometries
+ */
+function buildSegment(
+  segmentSteps: RouteStep[],
+  firstStepIdx: number,
+  segmentIndex: number,
+  legIndex: number
+): RouteSegment {
+  // Calculate segment distance from sum of step distances
+  const distance = segmentSteps.reduce((sum, step) => sum + step.distance, 0);
+  const duration = segmentSteps.reduce((sum, step) => sum + step.duration, 0);
+
+  // Build coordinates from step geometries
+  const coordinates: Array<[number, number]> = [];
+  for (const step of segmentSteps) {
+    if (step.geometry && step.geometry.length > 0) {
+      // Add all coordinates from this step's geometry
+      for (const coord of step.geometry) {
+        coordinates.push(coord);
+      }
+    } else {
+      // Fallback: use step location
+      coordinates.push(step.location);
+    }
+  }
+
+  // Remove duplicate consecutive coordinates
+  const uniqueCoords: Array<[number, number]> = [];
+  for (let j = 0; j < coordinates.length; j++) {
+    if (j === 0 || coordinates[j][0] !== coordinates[j - 1][0] || coordinates[j][1] !== coordinates[j - 1][1]) {
+      uniqueCoords.push(coordinates[j]);
+    }
+  }
+
+  // Ensure we have at least start and end coordinates
+  if (uniqueCoords.length === 0) {
+    uniqueCoords.push(segmentSteps[0].location);
+    if (segmentSteps.length > 1) {
+      uniqueCoords.push(segmentSteps[segmentSteps.length - 1].location);
+    }
+  }
+
+  const bounds = calculateBounds(uniqueCoords);
+  const endStepIdx = firstStepIdx + segmentSteps.length - 1;
+  const stepRange: [number, number] = [firstStepIdx, endStepIdx];
+  const stepIndices: number[] = [];
+  for (let j = firstStepIdx; j <= endStepIdx; j++) {
+    stepIndices.push(j);
+  }
+
+  return {
+    index: segmentIndex,
+    coordinates: uniqueCoords,
+    startCoord: uniqueCoords[0],
+    endCoord: uniqueCoords[uniqueCoords.length - 1],
+    bounds,
+    distance, // This is now the sum of step distances
+    duration,
+    stepRange,
+    stepIndices,
+    legIndex,
+  };
+}
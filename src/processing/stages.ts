@@ -0,0 +1,210 @@
+/**
+ * Multi-day stage planning - splits the route into daily stages that end
+ * near a shelter (church, school or fire station) where possible
+ */
+
+import { Coordinate, DayStage, POI, Route, RouteSegment, RouteStep } from '../types';
+import { ROUTE_CONFIG_PROCESSING } from '../config';
+import { densifyPath, haversineDistance } from '../utils/geo';
+import { PaceModel } from './pace';
+
+// Spacing for along-route lookups (meters)
+const ALONG_SPACING = 25;
+
+// Number of steps shown as "tomorrow morning" instructions
+const MORNING_STEP_COUNT = 3;
+
+export interface StageTarget {
+  day: number;
+  along: number; // Nominal end of the day, meters from start
+  coord: Coordinate;
+}
+
+/**
+ * Nominal end point of each day except the last, after the pace profile's
+ * hours per day of walking (so hilly days cover less ground)
+ * Shelters near these points are then fetched and passed to buildDailyStages
+ */
+export function calculateStageTargets(route: Route, pace: PaceModel): StageTarget[] {
+  const dailySeconds = pace.profile.hoursPerDay * 3600;
+  const points = densifyPath(route.coordinates, ALONG_SPACING);
+  const times = cumulativeTimes(route, points, pace);
+  const total = times.length > 0 ? times[times.length - 1] : 0;
+  const targets: StageTarget[] = [];
+
+  for (let day = 1; day * dailySeconds < total; day++) {
+    const idx = times.findIndex(t => t >= day * dailySeconds);
+    const { along, coord: [lon, lat] } = points[idx];
+    targets.push({ day, along, coord: { lat, lon } });
+  }
+
+  return targets;
+}
+
+/**
+ * Build daily stages, snapping each day's end to the best shelter near its target
+ * @param sheltersByTarget Candidate shelters for each target from calculateStageTargets
+ */
+export function buildDailyStages(
+  route: Route,
+  steps: RouteStep[],
+  segments: RouteSegment[],
+  targets: StageTarget[],
+  sheltersByTarget: POI[][],
+  pace: PaceModel
+): DayStage[] {
+  if (targets.length === 0) return [];
+
+  const points = densifyPath(route.coordinates, ALONG_SPACING);
+  const times = cumulativeTimes(route, points, pace);
+  const total = points[points.length - 1].along;
+
+  // Snap each day's end to a shelter, or keep the nominal point if none qualifies
+  const ends = targets.map((target, i) => {
+    const best = chooseShelter(points, target, sheltersByTarget[i] || []);
+    return best
+      ? { along: best.along, shelter: best.poi, offRoute: best.offRoute }
+      : { along: target.along, shelter: null, offRoute: undefined };
+  });
+
+  // Keep the ends in order even if two snaps cross
+  for (let i = 1; i < ends.length; i++) {
+    ends[i].along = Math.max(ends[i].along, ends[i - 1].along + ALONG_SPACING);
+  }
+
+  const stepStarts = cumulativeStarts(steps.map(s => s.distance));
+  const segmentStarts = cumulativeStarts(segments.map(s => s.distance));
+
+  const stages: DayStage[] = [];
+  let startAlong = 0;
+
+  for (let day = 1; day <= ends.length + 1; day++) {
+    const end = ends[day - 1];
+    const endAlong = end ? Math.min(end.along, total) : total;
+    const distance = endAlong - startAlong;
+
+    // Segments the day starts and ends in - a long segment can hold several days
+    const firstSegment = segmentAt(segments, segmentStarts, startAlong + 1);
+    const lastSegment = end ? segmentAt(segments, segmentStarts, Math.max(startAlong, endAlong - 1)) : segments[segments.length - 1];
+
+    stages.push({
+      day,
+      startAlong,
+      endAlong,
+      distance,
+      duration: timeAt(points, times, endAlong) - timeAt(points, times, startAlong),
+      overnight: end ? end.shelter : null,
+      overnightOffRoute: end?.offRoute,
+      endCoord: pointAt(points, endAlong),
+      firstSegmentIndex: firstSegment.index,
+      lastSegmentIndex: lastSegment.index,
+      morningSteps: end ? getStepsFrom(steps, stepStarts, endAlong) : [],
+    });
+
+    startAlong = endAlong;
+  }
+
+  return stages;
+}
+
+/**
+ * Walking time from the start to each point, scaled so the last point
+ * matches the route's duration
+ */
+function cumulativeTimes(
+  route: Route,
+  points: Array<{ coord: [number, number]; along: number }>,
+  pace: PaceModel
+): number[] {
+  const times: number[] = [];
+  let time = 0;
+  points.forEach((p, i) => {
+    if (i > 0) time += pace.duration(p.along - points[i - 1].along, [points[i - 1].coord, p.coord]);
+    times.push(time);
+  });
+
+  const scale = time > 0 && route.duration > 0 ? route.duration / time : 1;
+  return times.map(t => t * scale);
+}
+
+function timeAt(points: Array<{ along: number }>, times: number[], along: number): number {
+  const idx = points.findIndex(p => p.along >= along);
+  return idx === -1 ? times[times.length - 1] : times[idx];
+}
+
+/**
+ * Pick the shelter closest to the target along the route, within tolerance,
+ * that is reachable from the route. Higher-priority shelter types win ties.
+ */
+function chooseShelter(
+  points: Array<{ coord: [number, number]; along: number }>,
+  target: StageTarget,
+  shelters: POI[]
+): { poi: POI; along: number; offRoute: number } | null {
+  const { shelterSnapToleranceMeters, shelterMaxOffRouteMeters, shelterIconTypes } = ROUTE_CONFIG_PROCESSING;
+  let best: { poi: POI; along: number; offRoute: number; score: number } | null = null;
+
+  for (const poi of shelters) {
+    if (!shelterIconTypes.includes(poi.iconType)) continue;
+
+    // Nearest route point within the tolerance window
+    let along = 0;
+    let offRoute = Infinity;
+    for (const p of points) {
+      if (Math.abs(p.along - target.along) > shelterSnapToleranceMeters) continue;
+      const d = haversineDistance(poi.lat, poi.lon, p.coord[1], p.coord[0]);
+      if (d < offRoute) {
+        offRoute = d;
+        along = p.along;
+      }
+    }
+    if (offRoute > shelterMaxOffRouteMeters) continue;
+
+    // Walking off route counts double - it has to be walked back in the morning
+    const score = Math.abs(along - target.along) + 2 * offRoute + poi.priority;
+    if (!best || score < best.score) {
+      best = { poi, along, offRoute, score };
+    }
+  }
+
+  return best ? { poi: best.poi, along: best.along, offRoute: best.offRoute } : null;
+}
+
+function pointAt(points: Array<{ coord: [number, number]; along: number }>, along: number): [number, number] {
+  for (const p of points) {
+    if (p.along >= along) return p.coord;
+  }
+  return points[points.length - 1].coord;
+}
+
+function cumulativeStarts(distances: number[]): number[] {
+  const starts: number[] = [];
+  let total = 0;
+  for (const d of distances) {
+    starts.push(total);
+    total += d;
+  }
+  return starts;
+}
+
+/**
+ * The segment in progress at `along`
+ */
+function segmentAt(segments: RouteSegment[], segmentStarts: number[], along: number): RouteSegment {
+  let idx = 0;
+  for (let i = 0; i < segments.length; i++) {
+    if (segmentStarts[i] <= along) idx = i;
+  }
+  return segments[idx];
+}
+
+/**
+ * The step in progress at `along` and the next few after it
+ */
+function getStepsFrom(steps: RouteStep[], stepStarts: number[], along: number): RouteStep[] {
+  let idx = 0;
+  for (let i = 0; i < steps.length; i++) {
+    if (stepStarts[i] <= along) idx = i;
+  }
+  return steps.slice(idx, idx + MORNING_STEP_COUNT);
+}
@@ -2,8 +2,13 @@
  * Step processing - simplified, trust OSRM data
  */
 
-import { RouteStep, RouteSegment, ProcessedStep } from '../types';
+import { RouteStep, RouteSegment, ProcessedStep, UnitSystem, MessageCatalog } from '../types';
+import { HIGHWAY_TERMS } from '../config';
 import { formatDistance } from '../utils/format';
+import { en } from '../i18n/en';
+
+// Interstate route number; OSM writes "I 84", others "I-84" or "Interstate 84"
+const INTERSTATE_NUMBER = /^(i|interstate)[-\s]?\d+\b/;
 
 /**
  * Group steps by segment using stepRange
@@ -47,9 +52,34 @@ export function processStepsForDisplay(steps: RouteStep[]): ProcessedStep[] {
     name: step.name,
     ref: step.ref,
     distance: step.distance,
+    highway: isHighwayStep(step),
+    climb: step.climb,
   }));
 }
 
+/**
+ * Whether a step follows an expressway, interstate or similar road closed to
+ * pedestrians - a ramp, a road whose name ends in a HIGHWAY_TERMS word, or an
+ * interstate route number
+ */
+export function isHighwayStep(step: Pick<RouteStep, 'instruction' | 'name' | 'ref'>): boolean {
+  if (step.instruction === 'on ramp' || step.instruction === 'off ramp') return true;
+
+  const name = (step.name || '').trim().toLowerCase();
+  if (HIGHWAY_TERMS.some(term => new RegExp(`\\b${term}$`).test(name))) return true;
+
+  // A ref can list several routes ("I 84;US 6"), and some roads are named by their number
+  const numbers = [name, ...(step.ref || '').toLowerCase().split(/[;,/]/)];
+  return numbers.some(n => INTERSTATE_NUMBER.test(n.trim()));
+}
+
+/**
+ * Distance walked on highways over the given steps (meters)
+ */
+export function calculateHighwayDistance(steps: RouteStep[]): number {
+  return steps.filter(isHighwayStep).reduce((sum, step) => sum + step.distance, 0);
+}
+
 /**
  * Filter steps for display - return all steps from OSRM unchanged
  */
@@ -59,12 +89,19 @@ export function filterStepsForDisplay(steps: ProcessedStep[], _maxSteps?: number
 }
 
 /**
- * Format step as readable instruction
+ * Format step as readable instruction, with its distance
  */
-export function formatStepInstruction(step: ProcessedStep): string {
-  const action = formatAction(step.instruction, step.modifier);
+export function formatStepInstruction(step: ProcessedStep, units?: UnitSystem, messages: MessageCatalog = en): string {
   // Show distance for all steps (even short ones) so totals make sense
-  const dist = step.distance > 0 ? `<span class="step-dist">${formatDistance(step.distance)}</span>` : '';
+  const dist = step.distance > 0 ? `<span class="step-dist">${formatDistance(step.distance, units)}</span>` : '';
+  return `${formatStepText(step, messages)}${dist}`;
+}
+
+/**
+ * Format step as readable instruction, without its distance
+ */
+export function formatStepText(step: ProcessedStep, messages: MessageCatalog = en): string {
+  const action = formatAction(step.instruction, step.modifier, messages);
 
   // Build road name: prefer name, fall back to ref (route number)
   let roadName = '';
@@ -82,50 +119,49 @@ export function formatStepInstruction(step: ProcessedStep): string {
   if (roadName) {
     // Use "onto" for turns/direction changes, "on" for continues
     const isTurn = step.instruction === 'turn' || step.instruction === 'end of road' || step.instruction === 'fork';
-    const preposition = isTurn ? 'onto' : 'on';
-    return `${action} ${preposition} <strong>${roadName}</strong>${dist}`;
+    const road = `<strong>${roadName}</strong>`;
+    return isTurn ? messages.instructions.onto(action, road) : messages.instructions.on(action, road);
   }
 
-  // No road info - just show action with distance
-  return `${action}${dist}`;
+  // No road info - just show action
+  return action;
 }
 
-function formatAction(instruction: string, modifier?: string | null): string {
+function formatAction(instruction: string, modifier: string | null | undefined, messages: MessageCatalog): string {
   // Format direction - handle "straight" as "continue" not "turn"
-  const dir = modifier ? modifier.toUpperCase() : '';
+  const m = messages.instructions;
   const isStraight = modifier === 'straight' || !modifier;
+  const dir = isStraight ? undefined : modifier!;
 
   switch (instruction) {
     case 'depart':
-      return 'Start';
+      return m.start;
     case 'arrive':
-      return 'Arrive';
+      return m.arrive;
     case 'turn':
       // "Turn STRAIGHT" doesn't make sense - use "Continue" instead
-      if (isStraight) return 'Continue';
-      return `Turn ${dir}`;
+      return dir ? m.turn(dir) : m.continue;
     case 'new name':
       // Road name changes
-      if (isStraight) return 'Continue';
-      return `Bear ${dir}`;
+      return dir ? m.bear(dir) : m.continue;
     case 'continue':
-      return 'Continue';
+      return m.continue;
     case 'merge':
-      return dir && !isStraight ? `Merge ${dir}` : 'Merge';
+      return m.merge(dir);
     case 'fork':
-      return dir && !isStraight ? `At the fork, take a ${dir}` : 'At the fork, stay on route';
+      return m.fork(dir);
     case 'end of road':
-      return dir && !isStraight ? `At the end of the road, take a ${dir}` : 'At the end of the road';
+      return m.endOfRoad(dir);
     case 'roundabout':
-      return dir && !isStraight ? `At the roundabout, take a ${dir}` : 'Roundabout';
+      return m.roundabout(dir);
     case 'on ramp':
-      return dir && !isStraight ? `On ramp ${dir}` : 'On ramp';
+      return m.onRamp(dir);
     case 'off ramp':
-      return dir && !isStraight ? `Off ramp ${dir}` : 'Off ramp';
+      return m.offRamp(dir);
     case 'notification':
-      return 'Note';
+      return m.note;
     default:
-      return 'Continue';
+      return m.continue;
   }
 }
 
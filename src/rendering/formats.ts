@@ -0,0 +1,52 @@
+/**
+ * Output formats - each renders a directions plan to file contents
+ */
+
+import { DirectionsPlan } from '../types';
+import { generateHtmlDocument } from './html';
+import { generateGpxDocument } from './gpx';
+import { generateGeoJsonDocument } from './geojson';
+import { generateKmlDocument } from './kml';
+import { generatePdfDocument } from './pdf';
+import { localizePOINames } from '../i18n';
+
+export interface OutputFormatRenderer {
+  /** File extension, including the dot */
+  extension: string;
+  render(plan: DirectionsPlan): Promise<string | Buffer>;
+}
+
+// Every format shows unnamed POIs by their type in the document's language
+const localized = (render: (plan: DirectionsPlan) => Promise<string | Buffer>) =>
+  (plan: DirectionsPlan) => render(localizePOINames(plan));
+
+export const OUTPUT_FORMATS: Record<string, OutputFormatRenderer> = {
+  html: { extension: '.html', render: localized(generateHtmlDocument) },
+  gpx: { extension: '.gpx', render: localized(generateGpxDocument) },
+  geojson: { extension: '.geojson', render: localized(generateGeoJsonDocument) },
+  kml: { extension: '.kml', render: localized(generateKmlDocument) },
+  pdf: { extension: '.pdf', render: localized(generatePdfDocument) },
+};
+
+/**
+ * Look up a renderer by format name
+ */
+export function getOutputFormat(format: string): OutputFormatRenderer {
+  const renderer = OUTPUT_FORMATS[format.toLowerCase()];
+  if (!renderer) {
+    throw new Error(`Unknown output format: ${format}. Expected one of: ${Object.keys(OUTPUT_FORMATS).join(', ')}`);
+  }
+  return renderer;
+}
+
+/**
+ * Parse a comma-separated list of formats, e.g. "html,gpx"
+ */
+export function parseOutputFormats(value: string): string[] {
+  const formats = value.split(',').map(f => f.trim().toLowerCase()).filter(Boolean);
+  if (formats.length === 0) {
+    throw new Error(`No output format given. Expected one or more of: ${Object.keys(OUTPUT_FORMATS).join(', ')}`);
+  }
+  formats.forEach(getOutputFormat);
+  return Array.from(new Set(formats));
+}
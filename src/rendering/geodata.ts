@@ -0,0 +1,35 @@
+/**
+ * Shared helpers for the GIS/GPS export formats (GPX, GeoJSON, KML)
+ */
+
+import { DirectionsPlan, MessageCatalog, POI, RouteStep, UnitSystem } from '../types';
+import { formatStepText } from '../processing/steps';
+import { formatDistance, stripHtml } from '../utils/format';
+
+/**
+ * POIs from every segment (and the return trip), each only once
+ */
+export function collectPOIs(plan: DirectionsPlan): POI[] {
+  const all = [...plan.segmentPOIs.flat(), ...(plan.returnTrip?.segmentPOIs.flat() || [])];
+  const seen = new Set<string>();
+  return all.filter(poi => {
+    if (seen.has(poi.id)) return false;
+    seen.add(poi.id);
+    return true;
+  });
+}
+
+/**
+ * Plain-text instruction with its distance, e.g. "Turn LEFT onto Main St (0.3 mi)"
+ */
+export function describeStep(step: RouteStep, messages: MessageCatalog, units: UnitSystem): string {
+  const text = stripHtml(formatStepText(step, messages));
+  return step.distance > 0 ? `${text} (${formatDistance(step.distance, units)})` : text;
+}
+
+/**
+ * Localized "Plan B", "Plan C", ... for the i-th alternative
+ */
+export function alternativeLabel(index: number, messages: MessageCatalog): string {
+  return messages.document.planLabel(String.fromCharCode('B'.charCodeAt(0) + index));
+}
@@ -0,0 +1,122 @@
+/**
+ * GeoJSON export - the full plan as a FeatureCollection for GIS tools
+ *
+ * Every feature has a `kind` property (stop, segment, maneuver, poi,
+ * alternative, stage-end) so layers can be filtered on it; outbound and
+ * return features are told apart by `trip`.
+ */
+
+import { DirectionsPlan, GeoJSONFeature, GeoJSONFeatureCollection, GeoJSONGeometry, MessageCatalog } from '../types';
+import { getMessages } from '../i18n';
+import { alternativeLabel, collectPOIs, describeStep } from './geodata';
+
+type Trip = 'outbound' | 'return';
+
+/**
+ * Generate a GeoJSON FeatureCollection for the plan
+ */
+export async function generateGeoJsonDocument(plan: DirectionsPlan): Promise<string> {
+  return JSON.stringify(buildFeatureCollection(plan)) + '\n';
+}
+
+export function buildFeatureCollection(plan: DirectionsPlan): GeoJSONFeatureCollection {
+  const m = getMessages(plan.lang);
+  const features: GeoJSONFeature[] = [
+    ...buildTripFeatures(plan, 'outbound', m),
+    ...(plan.returnTrip ? buildTripFeatures(plan.returnTrip, 'return', m) : []),
+  ];
+
+  for (const poi of collectPOIs(plan)) {
+    features.push(feature({ type: 'Point', coordinates: [poi.lon, poi.lat] }, {
+      kind: 'poi',
+      id: poi.id,
+      name: poi.name,
+      type: m.poiTypes[poi.iconType] || poi.type,
+      iconType: poi.iconType,
+      priority: poi.priority,
+    }));
+  }
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Stops, segments, maneuvers, backup routes and day stages for one direction
+ */
+function buildTripFeatures(plan: DirectionsPlan, trip: Trip, m: MessageCatalog): GeoJSONFeature[] {
+  const { config } = plan;
+  const features: GeoJSONFeature[] = [];
+
+  const stops = [
+    { role: 'start', location: config.start },
+    ...config.via.map(location => ({ role: 'via', location })),
+    { role: 'end', location: config.end },
+  ];
+  for (const { role, location } of stops) {
+    features.push(feature({ type: 'Point', coordinates: [location.lon, location.lat] }, {
+      kind: 'stop',
+      trip,
+      role,
+      name: location.name,
+      address: location.address,
+    }));
+  }
+
+  plan.segments.forEach((segment, i) => {
+    const location = plan.segmentLocations[i];
+    features.push(feature({ type: 'LineString', coordinates: segment.coordinates }, {
+      kind: 'segment',
+      trip,
+      index: segment.index,
+      leg: segment.legIndex ?? 0,
+      distance: Math.round(segment.distance),
+      duration: Math.round(segment.duration),
+      startName: location.startName,
+      endName: location.endName,
+    }));
+
+    plan.segmentSteps[i].forEach((step, n) => {
+      features.push(feature({ type: 'Point', coordinates: step.location }, {
+        kind: 'maneuver',
+        trip,
+        segmentIndex: segment.index,
+        step: n + 1,
+        instruction: step.instruction,
+        modifier: step.modifier || null,
+        road: step.name || step.ref || null,
+        distance: Math.round(step.distance),
+        description: describeStep(step, m, plan.units),
+      }));
+    });
+  });
+
+  plan.alternatives.forEach((alt, i) => {
+    features.push(feature({ type: 'LineString', coordinates: alt.route.coordinates }, {
+      kind: 'alternative',
+      trip,
+      label: alternativeLabel(i, m),
+      distance: Math.round(alt.route.distance),
+      duration: Math.round(alt.route.duration),
+    }));
+  });
+
+  for (const stage of plan.stages) {
+    if (stage.day === plan.stages.length) continue;
+    const coordinates: [number, number] = stage.overnight ? [stage.overnight.lon, stage.overnight.lat] : stage.endCoord;
+    features.push(feature({ type: 'Point', coordinates }, {
+      kind: 'stage-end',
+      trip,
+      day: stage.day,
+      days: plan.stages.length,
+      distance: Math.round(stage.distance),
+      duration: Math.round(stage.duration),
+      shelter: stage.overnight ? stage.overnight.name : null,
+    }));
+  }
+
+  return features;
+}
+
+function feature(geometry: GeoJSONGeometry, properties: GeoJSONFeature['properties']): GeoJSONFeature {
+  return { type: 'Feature', geometry, properties };
+}
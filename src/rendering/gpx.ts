@@ -0,0 +1,127 @@
+/**
+ * GPX 1.1 export - the same plan for handheld GPS units
+ *
+ * Layout: start/via/end and POIs as waypoints, each segment as a route
+ * whose points are the turn-by-turn steps, and the full geometry as a track
+ * (plus backup routes and the return trip as extra tracks).
+ */
+
+import { DirectionsPlan, Location, MessageCatalog, POI } from '../types';
+import { getMessages } from '../i18n';
+import { escapeXml, formatDistance } from '../utils/format';
+import { alternativeLabel, collectPOIs, describeStep } from './geodata';
+
+// Garmin-compatible waypoint symbols by POI icon type
+const GPX_SYMBOLS: Record<string, string> = {
+  'hospital': 'Medical Facility',
+  'fire-station': 'Civil',
+  'police': 'Police Station',
+  'church': 'Church',
+  'gas': 'Gas Station',
+  'school': 'School',
+  'defibrillator': 'First Aid',
+  'emergency-phone': 'Telephone',
+  'pharmacy': 'Pharmacy',
+  'water': 'Drinking Water',
+  'shelter': 'Shelter',
+  'food': 'Shopping Center',
+  'toilets': 'Restroom',
+};
+
+/**
+ * Generate a GPX 1.1 document for the plan
+ */
+export async function generateGpxDocument(plan: DirectionsPlan): Promise<string> {
+  const m = getMessages(plan.lang);
+  const { config } = plan;
+  const title = `${config.start.name} → ${config.end.name}`;
+
+  const waypoints = [
+    generateStopWaypoint(config.start, m.document.from, 'Flag, Green'),
+    ...config.via.map(v => generateStopWaypoint(v, m.document.via, 'Flag, Blue')),
+    generateStopWaypoint(config.end, m.document.to, 'Flag, Red'),
+    ...collectPOIs(plan).map(poi => generatePOIWaypoint(poi, m)),
+  ];
+
+  const routes = generateSegmentRoutes(plan, m, '');
+  const tracks = [generateTrack(title, plan.route.coordinates)];
+
+  plan.alternatives.forEach((alt, i) => {
+    tracks.push(generateTrack(`${alternativeLabel(i, m)}: ${title}`, alt.route.coordinates));
+  });
+
+  if (plan.returnTrip) {
+    const returnTitle = `${m.document.returnTrip}: ${config.end.name} → ${config.start.name}`;
+    routes.push(...generateSegmentRoutes(plan.returnTrip, m, `${m.document.returnTrip} `));
+    tracks.push(generateTrack(returnTitle, plan.returnTrip.route.coordinates));
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="emergency-directions" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">
+  <metadata>
+    <name>${escapeXml(title)}</name>
+    <desc>${escapeXml(`${m.document.heading}: ${formatDistance(plan.route.distance, plan.units)}`)}</desc>
+    <time>${new Date().toISOString()}</time>
+  </metadata>
+${[...waypoints, ...routes, ...tracks].join('\n')}
+</gpx>
+`;
+}
+
+function generateStopWaypoint(stop: Location, label: string, symbol: string): string {
+  const desc = stop.address ? `\n    <desc>${escapeXml(stop.address)}</desc>` : '';
+  return `  <wpt ${latLon(stop.lat, stop.lon)}>
+    <name>${escapeXml(stop.name)}</name>
+    <cmt>${escapeXml(label)}</cmt>${desc}
+    <sym>${symbol}</sym>
+  </wpt>`;
+}
+
+function generatePOIWaypoint(poi: POI, m: MessageCatalog): string {
+  return `  <wpt ${latLon(poi.lat, poi.lon)}>
+    <name>${escapeXml(poi.name)}</name>
+    <sym>${GPX_SYMBOLS[poi.iconType] || 'Waypoint'}</sym>
+    <type>${escapeXml(m.poiTypes[poi.iconType] || poi.type)}</type>
+  </wpt>`;
+}
+
+/**
+ * One <rte> per segment, with a point at every maneuver
+ */
+function generateSegmentRoutes(plan: DirectionsPlan, m: MessageCatalog, namePrefix: string): string[] {
+  return plan.segments.map((segment, i) => {
+    const location = plan.segmentLocations[i];
+    const name = `${namePrefix}${segment.index}: ${location.startName} → ${location.endName}`;
+
+    const points = plan.segmentSteps[i].map((step, n) => {
+      const [lon, lat] = step.location;
+      return `    <rtept ${latLon(lat, lon)}>
+      <name>${segment.index}.${n + 1}</name>
+      <desc>${escapeXml(describeStep(step, m, plan.units))}</desc>
+      <type>${escapeXml(step.instruction)}</type>
+    </rtept>`;
+    });
+
+    return `  <rte>
+    <name>${escapeXml(name)}</name>
+    <desc>${escapeXml(formatDistance(segment.distance, plan.units))}</desc>
+    <number>${segment.index}</number>
+${points.join('\n')}
+  </rte>`;
+  });
+}
+
+function generateTrack(name: string, coordinates: Array<[number, number]>): string {
+  const points = coordinates.map(([lon, lat]) => `      <trkpt ${latLon(lat, lon)}/>`);
+  return `  <trk>
+    <name>${escapeXml(name)}</name>
+    <trkseg>
+${points.join('\n')}
+    </trkseg>
+  </trk>`;
+}
+
+// lat/lon attributes, to ~0.1 m
+function latLon(lat: number, lon: number): string {
+  return `lat="${Number(lat.toFixed(6))}" lon="${Number(lon.toFixed(6))}"`;
+}
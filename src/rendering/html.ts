@@ -5,26 +5,47 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import {
-  OSRMRoute,
+  AlternativeRoute,
+  AvoidArea,
+  BatchIndexEntry,
+  DayStage,
+  DirectionsPlan,
+  ElevationProfile,
+  Location,
+  Route,
+  RouteConfig,
   RouteSegment,
+  SegmentDataGaps,
   SegmentLocation,
   RouteStep,
   ProcessedStep,
+  Locale,
+  MessageCatalog,
+  POI,
+  RouteSettings,
+  UnitSystem,
 } from '../types';
-import { POI } from '../api/overpass';
-import { ROUTE_CONFIG } from '../config';
+import { OUTPUT_CONFIG } from '../config';
+import { getMessages, parseLanguages } from '../i18n';
 import {
   formatDistance,
   formatDuration,
+  formatElevation,
   calculateDaysNeeded,
+  escapeHtml,
 } from '../utils/format';
-import { generateOverviewMapSvg, generateSegmentMapSvg } from './svg';
+import { generateElevationProfileSvg, generateOverviewMapSvg, generateSegmentMapSvg } from './svg';
+import { alternativeLabel } from './geodata';
+import { DIRECTION_ICONS } from './icons';
 import {
   processStepsForDisplay,
   filterStepsForDisplay,
   formatStepInstruction,
+  formatStepText,
   getStepIconType,
+  calculateHighwayDistance,
 } from '../processing/steps';
+import { sumElevationProfiles } from '../processing/elevation';
 
 // State Police phone numbers - all 50 states
 const STATE_POLICE_NUMBERS: Record<string, { name: string; phone: string }> = {
@@ -91,69 +112,43 @@ function extractState(address: string): string | null {
 }
 
 /**
- * Generate emergency box HTML with dynamic state police numbers
+ * State police numbers for every state the route's stops are in
  */
-function generateEmergencyBox(): string {
-  const startState = extractState(ROUTE_CONFIG.start.address);
-  const endState = extractState(ROUTE_CONFIG.end.address);
+export function getStatePoliceContacts(config: RouteConfig): Array<{ name: string; phone: string }> {
+  const stops = [config.start, ...config.via, config.end];
 
   // Collect unique states
   const states = new Set<string>();
-  if (startState) states.add(startState);
-  if (endState) states.add(endState);
-
-  // Generate state police items
-  const stateItems = Array.from(states)
-    .map(state => {
-      const info = STATE_POLICE_NUMBERS[state];
-      if (!info) return '';
-      return `
+  for (const stop of stops) {
+    const state = extractState(stop.address);
+    if (state) states.add(state);
+  }
+
+  return Array.from(states)
+    .map(state => STATE_POLICE_NUMBERS[state])
+    .filter(Boolean);
+}
+
+/**
+ * Generate emergency box HTML with dynamic state police numbers
+ */
+function generateEmergencyBox(config: RouteConfig, display: DisplayOptions): string {
+  const stateItems = getStatePoliceContacts(config)
+    .map(info => `
     <div class="item">
       <div class="label">${info.name}</div>
       <div class="value">${info.phone}</div>
-    </div>`;
-    })
-    .filter(Boolean)
+    </div>`)
     .join('');
 
   return `<div class="emergency-box">
     <div class="item">
-      <div class="label">Emergency</div>
+      <div class="label">${tr(display, t => t.document.emergency)}</div>
       <div class="value">911</div>
     </div>${stateItems}
   </div>`;
 }
 
-// Lucide SVG icons for directions - only real Lucide icons
-const DIRECTION_ICONS: Record<string, string> = {
-  // Lucide arrow-up
-  'straight': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M12 19V5"/><path d="m5 12 7-7 7 7"/></svg>`,
-  // Lucide arrow-left
-  'left': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M19 12H5"/><path d="m12 19-7-7 7-7"/></svg>`,
-  // Lucide arrow-right
-  'right': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M5 12h14"/><path d="m12 5 7 7-7 7"/></svg>`,
-  // Lucide arrow-up-left
-  'slight-left': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M17 17 7 7"/><path d="M7 17V7h10"/></svg>`,
-  // Lucide arrow-up-right
-  'slight-right': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M7 17 17 7"/><path d="M7 7h10v10"/></svg>`,
-  // Lucide corner-up-left
-  'sharp-left': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="m9 14-5-5 5-5"/><path d="M20 20v-7a4 4 0 0 0-4-4H4"/></svg>`,
-  // Lucide corner-up-right
-  'sharp-right': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="m15 14 5-5-5-5"/><path d="M4 20v-7a4 4 0 0 1 4-4h12"/></svg>`,
-  // Lucide undo-2
-  'uturn': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="m9 14-5-5 5-5"/><path d="M4 9h10.5a5.5 5.5 0 0 1 5.5 5.5a5.5 5.5 0 0 1-5.5 5.5H11"/></svg>`,
-  // Start marker - filled circle
-  'start': `<svg viewBox="0 0 24 24" fill="currentColor" stroke="currentColor" stroke-width="1"><circle cx="12" cy="12" r="6"/></svg>`,
-  // Lucide circle-dot
-  'end': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><circle cx="12" cy="12" r="3" fill="currentColor"/></svg>`,
-  // Lucide rotate-cw (for roundabout)
-  'roundabout': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M21 12a9 9 0 1 1-9-9c2.52 0 4.93 1 6.74 2.74L21 8"/><path d="M21 3v5h-5"/></svg>`,
-  // Lucide signpost (for fork/keep)
-  'fork': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M12 3v3"/><path d="M18.5 13h-13L2 9.5 5.5 6h13L22 9.5Z"/><path d="M12 13v8"/></svg>`,
-  // Lucide arrow-up (merge = continue forward)
-  'merge': `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M12 19V5"/><path d="m5 12 7-7 7 7"/></svg>`,
-};
-
 /**
  * Load CSS from templates directory
  */
@@ -162,107 +157,463 @@ function loadStyles(): string {
   return fs.readFileSync(cssPath, 'utf-8');
 }
 
+// Per-document display settings: unit system and one or two languages
+interface DisplayOptions {
+  units: UnitSystem;
+  messages: MessageCatalog[]; // Primary language first, then the bilingual one if any
+}
+
+function getDisplayOptions(units: UnitSystem, lang: Locale, secondaryLang?: Locale): DisplayOptions {
+  const langs = secondaryLang ? [lang, secondaryLang] : [lang];
+  return { units, messages: langs.map(getMessages) };
+}
+
+/**
+ * Localized text; in bilingual documents the second language follows the first
+ */
+function tr(display: DisplayOptions, text: (m: MessageCatalog) => string): string {
+  const [primary, secondary] = display.messages.map(text);
+  return secondary !== undefined && secondary !== primary
+    ? `${primary}<span class="l2">${secondary}</span>`
+    : primary;
+}
+
 /**
  * Generate complete HTML document
  */
-export async function generateHtmlDocument(
-  route: OSRMRoute,
-  segments: RouteSegment[],
-  segmentLocations: SegmentLocation[],
-  segmentSteps: RouteStep[][],
-  segmentPOIs: POI[][] = []
-): Promise<string> {
+export async function generateHtmlDocument(plan: DirectionsPlan): Promise<string> {
+  const { config, route, returnTrip } = plan;
+  const display = getDisplayOptions(plan.units, plan.lang, plan.secondaryLang);
+  const m = display.messages[0];
   const styles = loadStyles();
-  const totalDistance = formatDistance(route.distance);
-  const walkingHours = route.distance / (1.34 * 3600);
-  const totalDuration = `${Math.round(walkingHours)} hours`;
-  const daysNeeded = calculateDaysNeeded(route.duration);
+  const totalDistance = formatDistance(route.distance, display.units);
+  const walkingHours = route.duration / 3600;
+  const daysNeeded = calculateDaysNeeded(route.duration, plan.paceProfile.hoursPerDay);
 
-  const coordinates = route.geometry.coordinates;
-  const overviewSvg = await generateOverviewMapSvg(coordinates);
-  const segmentsHtml = await generateSegmentsHtml(segments, segmentLocations, segmentSteps, segmentPOIs);
-  const segmentsWrapped = `<div class="segments-container">${segmentsHtml}</div>`;
+  const forwardHtml = await generateRouteSectionHtml(plan, '', tr(display, t => t.document.overview), display);
+  const returnHtml = returnTrip ? await generateReturnTripHtml(returnTrip, display) : '';
+
+  const survivalHtml = m.document.survival.map((_, i) =>
+    `    <div class="survival-item"><strong>${tr(display, t => t.document.survival[i].title)}</strong>${tr(display, t => t.document.survival[i].text)}</div>`
+  ).join('\n');
 
   return `<!DOCTYPE html>
-<html lang="en">
+<html lang="${plan.lang}">
 <head>
   <meta charset="UTF-8">
-  <title>Emergency Walking Directions</title>
+  <title>${m.document.title}</title>
   <style>
 ${styles}
   </style>
 </head>
 <body>
   <header>
-    <h1>Emergency Walking Route</h1>
+    <h1>${tr(display, t => t.document.heading)}</h1>
   </header>
 
   <div class="route-info">
     <div class="endpoint">
-      <div class="label">From</div>
-      <div class="name">${ROUTE_CONFIG.start.name}</div>
-      <div class="addr">${ROUTE_CONFIG.start.address}</div>
+      <div class="label">${tr(display, t => t.document.from)}</div>
+      <div class="name">${config.start.name}</div>
+      <div class="addr">${config.start.address}</div>
     </div>
-    <div class="arrow">→</div>
+    <div class="arrow">→</div>${generateViaHtml(config.via, display)}
     <div class="endpoint">
-      <div class="label">To</div>
-      <div class="name">${ROUTE_CONFIG.end.name}</div>
-      <div class="addr">${ROUTE_CONFIG.end.address}</div>
+      <div class="label">${tr(display, t => t.document.to)}</div>
+      <div class="name">${config.end.name}</div>
+      <div class="addr">${config.end.address}</div>
     </div>
     <div class="totals">
       <div class="big">${totalDistance}</div>
-      <div>~${totalDuration} walking</div>
-      <div>Plan ${daysNeeded}+ days</div>
-    </div>
+      <div>${tr(display, t => t.document.hoursWalking(String(Math.round(walkingHours))))}</div>
+      <div>${tr(display, t => t.document.planDays(daysNeeded))}</div>${generateClimbTotalsHtml(plan.segmentElevations, display)}
+      <div>${tr(display, t => t.document.paceLabel(t.paceProfiles[plan.paceProfile.id] || plan.paceProfile.label))}</div>
+    </div>${returnTrip ? generateReturnTotalsHtml(returnTrip, display) : ''}
   </div>
 
   <div class="warning">
-    <strong>⚠ Emergency Use:</strong> Walk facing traffic. Carry water. Rest when needed. At night, stay visible or shelter in place.
+    <strong>${tr(display, t => t.document.warningTitle)}</strong> ${tr(display, t => t.document.warning)}
+  </div>
+
+${forwardHtml}
+${returnHtml}
+  <div class="survival">
+${survivalHtml}
   </div>
 
-  <div class="overview">
-    <h2>Full Route Overview</h2>
+  ${generateEmergencyBox(config, display)}
+</body>
+</html>`;
+}
+
+/**
+ * Generate the index page for a batch run, linking every generated document
+ */
+export function generateBatchIndexHtml(entries: BatchIndexEntry[], settings: RouteSettings = {}): string {
+  const { lang, secondaryLang } = parseLanguages(settings.lang ?? OUTPUT_CONFIG.lang);
+  const display = getDisplayOptions(settings.units ?? OUTPUT_CONFIG.units, lang, secondaryLang);
+  const styles = loadStyles();
+
+  const rows = entries.map(entry => {
+    const title = entry.file
+      ? `<a href="${encodeURI(entry.file)}">${escapeHtml(entry.title)}</a>`
+      : escapeHtml(entry.title);
+    const stats = entry.error
+      ? `<span class="batch-error">${display.messages[0].document.failed(escapeHtml(entry.error))}</span>`
+      : `${formatDistance(entry.distance || 0, display.units)} · ~${formatDuration(entry.duration || 0, display.messages[0])}`;
+
+    return `
+      <tr>
+        <td>${title}</td>
+        <td>${escapeHtml(entry.from)} → ${escapeHtml(entry.to)}</td>
+        <td>${stats}</td>
+      </tr>`;
+  }).join('');
+
+  const columns = [0, 1, 2].map(i => `<th>${tr(display, t => t.document.batchColumns[i])}</th>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+  <meta charset="UTF-8">
+  <title>${display.messages[0].document.batchTitle}</title>
+  <style>
+${styles}
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${tr(display, t => t.document.batchHeading)}</h1>
+  </header>
+
+  <table class="batch-index">
+    <thead>
+      <tr>${columns}</tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+</body>
+</html>`;
+}
+
+/**
+ * Overview map, segments and backup plans for one direction of travel
+ * idPrefix keeps SVG element ids unique when a document has several sections
+ */
+async function generateRouteSectionHtml(
+  plan: DirectionsPlan,
+  idPrefix: string,
+  overviewTitle: string,
+  display: DisplayOptions
+): Promise<string> {
+  const m = display.messages[0];
+  const markerLabels = { start: m.document.mapStart, end: m.document.mapEnd };
+  const overviewSvg = await generateOverviewMapSvg(plan.route.coordinates, undefined, plan.alternatives, idPrefix, markerLabels, plan.avoidAreas);
+  const segmentsWrapped = await generateLegsHtml(plan, idPrefix, display);
+
+  return `  <div class="overview">
+    <h2>${overviewTitle}</h2>
     <div class="overview-map">
       ${overviewSvg}
-    </div>
+    </div>${generateAvoidSummaryHtml(plan, display)}${generateHighwaySummaryHtml(plan, display)}
   </div>
 
 ${segmentsWrapped}
+${generateAlternativesHtml(plan.route, plan.alternatives, display)}`;
+}
 
-  <div class="survival">
-    <div class="survival-item"><strong>Water</strong>Gas stations, fast food, fire stations</div>
-    <div class="survival-item"><strong>Food</strong>Convenience stores, supermarkets</div>
-    <div class="survival-item"><strong>Shelter</strong>Churches, fire stations, 24hr stores</div>
-    <div class="survival-item"><strong>Emergency</strong>Call 911, flag vehicles, seek lit areas</div>
+/**
+ * Notice under the overview map naming the avoid areas, and any the route
+ * could not get around
+ */
+function generateAvoidSummaryHtml(plan: DirectionsPlan, display: DisplayOptions): string {
+  if (plan.avoidAreas.length === 0) return '';
+
+  const avoided = [...new Set(plan.avoidAreas.map(a => a.name))].filter(name => !plan.crossedAreas.includes(name));
+  const avoidedHtml = avoided.length > 0 ? ` ${tr(display, t => t.document.avoidedAreas(avoided.join(', ')))}` : '';
+  const crossedHtml = plan.crossedAreas.length > 0
+    ? ` <span class="avoid-crossed">${tr(display, t => t.document.areasNotAvoided(plan.crossedAreas.join(', ')))}</span>`
+    : '';
+  return `
+    <div class="avoid-summary"><strong>${tr(display, t => t.document.avoidTitle)}</strong>${avoidedHtml}${crossedHtml}</div>`;
+}
+
+/**
+ * Warning under the overview map when the route uses highways: total distance
+ * and the segments to look at
+ */
+function generateHighwaySummaryHtml(plan: DirectionsPlan, display: DisplayOptions): string {
+  const perSegment = plan.segmentSteps.map(calculateHighwayDistance);
+  const total = perSegment.reduce((sum, d) => sum + d, 0);
+  if (total === 0) return '';
+
+  const indices = plan.segments.filter((_, i) => perSegment[i] > 0).map(s => s.index);
+  const distance = formatDistance(total, display.units);
+  return `
+    <div class="highway-summary"><strong>${tr(display, t => t.document.highwayTitle)}</strong> ${tr(display, t => t.document.highwaySummary(distance, indices))}</div>`;
+}
+
+/**
+ * Complete reverse section, routed separately from end to start
+ */
+async function generateReturnTripHtml(returnPlan: DirectionsPlan, display: DisplayOptions): Promise<string> {
+  const { config, route } = returnPlan;
+  const sectionHtml = await generateRouteSectionHtml(returnPlan, 'return-', tr(display, t => t.document.returnOverview), display);
+
+  return `
+  <div class="return-trip">
+    <div class="return-header">
+      <span class="return-label">${tr(display, t => t.document.returnTrip)}</span>
+      <strong>${config.start.name} → ${config.end.name}</strong>
+      <span class="return-stats">${formatDistance(route.distance, display.units)} · ~${formatDuration(route.duration, display.messages[0])}</span>
+    </div>
+${sectionHtml}
   </div>
+`;
+}
 
-  ${generateEmergencyBox()}
-</body>
-</html>`;
+function generateReturnTotalsHtml(returnPlan: DirectionsPlan, display: DisplayOptions): string {
+  const returnRoute = returnPlan.route;
+  const walkingHours = returnRoute.duration / 3600;
+  const daysNeeded = calculateDaysNeeded(returnRoute.duration, returnPlan.paceProfile.hoursPerDay);
+
+  return `
+    <div class="totals">
+      <div class="label">${tr(display, t => t.document.returnTotals)}</div>
+      <div class="big">${formatDistance(returnRoute.distance, display.units)}</div>
+      <div>${tr(display, t => t.document.hoursWalking(String(Math.round(walkingHours))))}</div>
+      <div>${tr(display, t => t.document.planDays(daysNeeded))}</div>${generateClimbTotalsHtml(returnPlan.segmentElevations, display)}
+    </div>`;
+}
+
+/**
+ * Total ascent and descent line for the route totals, when elevation is known
+ */
+function generateClimbTotalsHtml(segmentElevations: Array<ElevationProfile | null>, display: DisplayOptions): string {
+  const climb = sumElevationProfiles(segmentElevations);
+  if (!climb) return '';
+  const ascent = formatElevation(climb.ascent, display.units);
+  const descent = formatElevation(climb.descent, display.units);
+  return `
+      <div>${tr(display, t => t.document.climbTotals(ascent, descent))}</div>`;
+}
+
+function generateViaHtml(via: Location[], display: DisplayOptions): string {
+  if (via.length === 0) return '';
+
+  return `
+    <div class="endpoint via">
+      <div class="label">${tr(display, t => t.document.via)}</div>
+      <div class="name">${via.map(v => v.name).join(' → ')}</div>
+    </div>
+    <div class="arrow">→</div>`;
+}
+
+/**
+ * Render segments, grouped into one chapter per leg when the route has via points
+ */
+async function generateLegsHtml(plan: DirectionsPlan, idPrefix: string, display: DisplayOptions): Promise<string> {
+  const { config, route, segments, segmentLocations, segmentSteps, segmentPOIs, segmentDataGaps, segmentElevations, stages, avoidAreas } = plan;
+
+  if (route.legs.length <= 1) {
+    const segmentsHtml = await generateSegmentsHtml(
+      segments, segmentLocations, segmentSteps, segmentPOIs, segmentDataGaps, segmentElevations, idPrefix, display, stages, avoidAreas
+    );
+    return `<div class="segments-container">${segmentsHtml}</div>`;
+  }
+
+  const stops = [config.start, ...config.via, config.end];
+
+  const legParts = await Promise.all(route.legs.map(async (leg, legIndex) => {
+    const indices = segments
+      .map((seg, i) => (seg.legIndex === legIndex ? i : -1))
+      .filter(i => i >= 0);
+    const segmentsHtml = await generateSegmentsHtml(
+      indices.map(i => segments[i]),
+      indices.map(i => segmentLocations[i]),
+      indices.map(i => segmentSteps[i]),
+      indices.map(i => segmentPOIs[i] || []),
+      indices.map(i => segmentDataGaps[i]),
+      indices.map(i => segmentElevations[i]),
+      idPrefix,
+      display,
+      stages,
+      avoidAreas
+    );
+
+    const from = stops[legIndex];
+    const to = stops[legIndex + 1];
+    const isLastLeg = legIndex === route.legs.length - 1;
+    const stopHtml = isLastLeg ? '' : generateStopHtml(to, stops[legIndex + 2], display);
+
+    return `
+  <div class="leg">
+    <div class="leg-header">
+      <span class="leg-num">${tr(display, t => t.document.leg(legIndex + 1, route.legs.length))}</span>
+      <strong>${from.name} → ${to.name}</strong>
+      <span class="leg-stats">${formatDistance(leg.distance, display.units)} · ~${formatDuration(leg.duration, display.messages[0])}</span>
+    </div>
+    <div class="segments-container">${segmentsHtml}</div>${stopHtml}
+  </div>`;
+  }));
+
+  return legParts.join('\n');
+}
+
+/**
+ * Arrival/departure notice for an intermediate stop
+ */
+function generateStopHtml(stop: Location, next: Location, display: DisplayOptions): string {
+  const address = stop.address ? ` <span class="stop-addr">${stop.address}</span>` : '';
+  return `
+    <div class="leg-stop">
+      <div><strong>${tr(display, t => t.document.arrive)}</strong> ${stop.name}${address}</div>
+      <div><strong>${tr(display, t => t.document.depart)}</strong> ${stop.name} → ${tr(display, t => t.document.continueTo(next.name))}</div>
+    </div>`;
+}
+
+/**
+ * Condensed backup plans: totals, where each leaves and rejoins the
+ * primary route, and only the turns that differ from it
+ */
+function generateAlternativesHtml(primary: Route, alternatives: AlternativeRoute[], display: DisplayOptions): string {
+  if (alternatives.length === 0) return '';
+  const { units } = display;
+
+  const plans = alternatives.map((alt, i) => {
+    const extra = alt.route.distance - primary.distance;
+    const extraText = Math.abs(extra) >= 100 ? ` (${extra > 0 ? '+' : '−'}${formatDistance(Math.abs(extra), units)})` : '';
+
+    const divergenceItems = alt.divergences.map(d => {
+      const divergeRoad = d.divergeName ? `<strong>${d.divergeName}</strong>` : undefined;
+      const rejoinRoad = d.rejoinName ? `<strong>${d.rejoinName}</strong>` : undefined;
+      const leave = tr(display, t => t.document.leaveAt(formatDistance(d.divergeAlongPrimary, units), divergeRoad));
+      const rejoin = d.rejoinAlongPrimary !== null
+        ? tr(display, t => t.document.rejoinAt(formatDistance(d.rejoinAlongPrimary!, units), rejoinRoad))
+        : tr(display, t => t.document.continueToDestination);
+      return `<li>${leave} · ${rejoin} · ${tr(display, t => t.document.offMainRoute(formatDistance(d.distance, units)))}</li>`;
+    }).join('');
+
+    return `
+    <div class="alternative">
+      <div class="alternative-header">
+        <span class="plan-label">${tr(display, t => alternativeLabel(i, t))}</span>
+        <strong>${tr(display, t => t.document.ifBlocked)}</strong>
+        <span class="alternative-stats">${formatDistance(alt.route.distance, units)} · ~${formatDuration(alt.route.duration, display.messages[0])}${extraText}</span>
+      </div>
+      <ul class="divergences">${divergenceItems}</ul>
+      <div class="segment-directions">
+        <ul>${generateStepsHtml(alt.steps, display)}</ul>
+      </div>
+    </div>`;
+  }).join('');
+
+  return `
+  <div class="alternatives">
+    <h2>${tr(display, t => t.document.backupRoutes)}</h2>${plans}
+  </div>
+`;
 }
 
 async function generateSegmentsHtml(
   segments: RouteSegment[],
   segmentLocations: SegmentLocation[],
   segmentSteps: RouteStep[][],
-  segmentPOIs: POI[][]
+  segmentPOIs: POI[][],
+  segmentDataGaps: SegmentDataGaps[],
+  segmentElevations: Array<ElevationProfile | null>,
+  idPrefix: string,
+  display: DisplayOptions,
+  stages: DayStage[] = [],
+  avoidAreas: AvoidArea[] = []
 ): Promise<string> {
   const htmlParts = await Promise.all(
-    segments.map((seg, i) => generateSegmentHtml(seg, segmentLocations[i], segmentSteps[i], segmentPOIs[i] || []))
+    segments.map(async (seg, i) => {
+      // Each day starts on a new page with its header, before the segment it
+      // starts in - a long segment can hold the start of several days
+      const dayHtml = stages
+        .filter(st => st.firstSegmentIndex === seg.index)
+        .map(st => generateDayHeaderHtml(st, stages.length, display))
+        .join('');
+      return dayHtml + await generateSegmentHtml(seg, segmentLocations[i], segmentSteps[i], segmentPOIs[i] || [], segmentDataGaps[i], segmentElevations[i], idPrefix, display, avoidAreas);
+    })
   );
   return htmlParts.join('\n');
 }
 
+/**
+ * Day header page: the day's totals, where to spend the night and how to set off next morning
+ */
+function generateDayHeaderHtml(stage: DayStage, totalDays: number, display: DisplayOptions): string {
+  const hours = stage.duration / 3600;
+  const isLastDay = stage.day === totalDays;
+
+  let overnightHtml: string;
+  if (isLastDay) {
+    overnightHtml = `<div><strong>${tr(display, t => t.document.end)}</strong> ${tr(display, t => t.document.arriveAtDestination)}</div>`;
+  } else if (stage.overnight) {
+    const shelter = stage.overnight;
+    const offRoute = stage.overnightOffRoute !== undefined && stage.overnightOffRoute >= 50
+      ? formatDistance(stage.overnightOffRoute, display.units)
+      : undefined;
+    const details = tr(display, t => {
+      const type = t.poiTypes[shelter.iconType] || shelter.type;
+      return offRoute ? `${type} · ${t.document.offRoute(offRoute)}` : type;
+    });
+    overnightHtml = `<div><strong>${tr(display, t => t.document.overnight)}</strong> ${escapeHtml(shelter.name)} <span class="day-shelter-type">${details}</span></div>`;
+  } else {
+    const [lon, lat] = stage.endCoord;
+    const coords = `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
+    overnightHtml = `<div><strong>${tr(display, t => t.document.overnight)}</strong> ${tr(display, t => t.document.noShelter(coords))}</div>`;
+  }
+
+  const morningHtml = stage.morningSteps.length > 0
+    ? `
+          <div class="day-morning segment-directions">
+            <strong>${tr(display, t => t.document.nextMorning)}</strong>
+            <ul>${generateStepsHtml(stage.morningSteps, display)}</ul>
+          </div>`
+    : '';
+
+  return `
+      <div class="day-header">
+        <div class="day-title">
+          <span class="day-num">${tr(display, t => t.document.day(stage.day, totalDays))}</span>
+          <span class="day-stats">${formatDistance(stage.distance, display.units)} · ${tr(display, t => t.document.hoursWalking(hours.toFixed(1)))}</span>
+        </div>
+        <div class="day-overnight">
+          ${overnightHtml}
+        </div>${morningHtml}
+      </div>
+`;
+}
 async function generateSegmentHtml(
   segment: RouteSegment,
   location: SegmentLocation,
   steps: RouteStep[],
-  pois: POI[]
+  pois: POI[],
+  gaps: SegmentDataGaps | undefined,
+  elevation: ElevationProfile | null,
+  idPrefix: string,
+  display: DisplayOptions,
+  avoidAreas: AvoidArea[] = []
 ): Promise<string> {
-  const segDistance = formatDistance(segment.distance);
-  const segDuration = formatDuration(segment.duration);
-  const mapSvg = await generateSegmentMapSvg(segment, undefined, pois);
-  const stepsHtml = generateStepsHtml(steps);
+  const segDistance = formatDistance(segment.distance, display.units);
+  const segDuration = formatDuration(segment.duration, display.messages[0]);
+  const mapSvg = await generateSegmentMapSvg(segment, undefined, pois, idPrefix, steps, avoidAreas);
+  const stepsHtml = generateStepsHtml(steps, display);
+  const highwayDistance = calculateHighwayDistance(steps);
+  const highwayHtml = highwayDistance > 0
+    ? ` · <span class="highway-exposure">${tr(display, t => t.document.highwayExposure(formatDistance(highwayDistance, display.units)))}</span>`
+    : '';
+  const climbHtml = elevation
+    ? ` · ${tr(display, t => t.document.climbTotals(formatElevation(elevation.ascent, display.units), formatElevation(elevation.descent, display.units)))}`
+    : '';
+  const profileHtml = elevation
+    ? `
+        <div class="segment-profile">${generateElevationProfileSvg(elevation, display.units)}</div>`
+    : '';
 
   return `
       <div class="segment">
@@ -270,37 +621,58 @@ async function generateSegmentHtml(
           <span class="segment-num">${segment.index}</span>
           <div class="segment-title">
             <strong>${location.startName} → ${location.endName}</strong>
-            <span class="segment-stats">${segDistance} · ~${segDuration}</span>
+            <span class="segment-stats">${segDistance} · ~${segDuration}${climbHtml}${highwayHtml}</span>
           </div>
-        </div>
+        </div>${generateDataNoticeHtml(gaps, display)}
         <div class="segment-body">
           <div class="segment-map">${mapSvg}</div>
           <div class="segment-directions">
             <ul>${stepsHtml}</ul>
           </div>
-        </div>
+        </div>${profileHtml}
       </div>
     `;
 }
 
-function generateStepsHtml(steps: RouteStep[]): string {
+/**
+ * Notice on a segment whose place names or POIs could not be fetched,
+ * so a missing hospital isn't mistaken for there being none
+ */
+function generateDataNoticeHtml(gaps: SegmentDataGaps | undefined, display: DisplayOptions): string {
+  if (!gaps || (!gaps.placeNames && !gaps.pois)) return '';
+
+  const text = tr(display, t => [
+    gaps.placeNames ? t.document.placeNamesUnavailable : '',
+    gaps.pois ? t.document.poisUnavailable : '',
+  ].filter(Boolean).join(' '));
+  return `
+        <div class="segment-notice"><strong>${tr(display, t => t.document.dataIncomplete)}</strong> ${text}</div>`;
+}
+
+function generateStepsHtml(steps: RouteStep[], display: DisplayOptions): string {
   const processedSteps = processStepsForDisplay(steps);
   const displaySteps = filterStepsForDisplay(processedSteps);
 
   if (displaySteps.length === 0) {
-    return createStepItem('straight', 'Follow route on map');
+    return createStepItem('straight', tr(display, t => t.instructions.followRoute));
   }
 
-  return displaySteps.map((s) => formatStepWithIcon(s)).join('\n');
+  return displaySteps.map((s) => formatStepWithIcon(s, display)).join('\n');
 }
 
-function formatStepWithIcon(step: ProcessedStep): string {
+function formatStepWithIcon(step: ProcessedStep, display: DisplayOptions): string {
   const iconType = getStepIconType(step.instruction, step.modifier);
-  const text = formatStepInstruction(step);
-  return createStepItem(iconType, text);
+  const [primary, secondary] = display.messages;
+  // Distance is only shown once, after the primary language
+  const text = formatStepInstruction(step, display.units, primary)
+    + (secondary ? `<span class="l2">${formatStepText(step, secondary)}</span>` : '');
+  // Warning badge in the primary language only, so it stays on one line
+  const badge = (step.highway ? `<span class="highway-badge">${primary.document.highwayBadge}</span>` : '')
+    + (step.climb ? `<span class="climb-badge">${primary.document.steepClimbBadge(formatElevation(step.climb.ascent, display.units), step.climb.grade)}</span>` : '');
+  return createStepItem(iconType, badge + text, step.highway);
 }
 
-function createStepItem(iconType: string, text: string): string {
+function createStepItem(iconType: string, text: string, highway = false): string {
   const icon = DIRECTION_ICONS[iconType] || DIRECTION_ICONS['straight'];
-  return `<li><span class="dir-icon">${icon}</span><span class="dir-text">${text}</span></li>`;
+  return `<li${highway ? ' class="step-highway"' : ''}><span class="dir-icon">${icon}</span><span class="dir-text">${text}</span></li>`;
 }
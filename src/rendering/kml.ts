@@ -0,0 +1,155 @@
+/**
+ * KML export - the GeoJSON features as styled placemarks for Google Earth
+ */
+
+import { DirectionsPlan, GeoJSONFeature, GeoJSONGeometry, MessageCatalog, UnitSystem } from '../types';
+import { getMessages } from '../i18n';
+import { escapeXml, formatDistance, formatDuration } from '../utils/format';
+import { buildFeatureCollection } from './geojson';
+
+const ICON_BASE = 'http://maps.google.com/mapfiles/kml';
+
+// Icons by style id; POI styles are "poi-<iconType>"
+const KML_ICONS: Record<string, string> = {
+  'stop-start': `${ICON_BASE}/paddle/grn-circle.png`,
+  'stop-via': `${ICON_BASE}/paddle/ylw-circle.png`,
+  'stop-end': `${ICON_BASE}/paddle/red-circle.png`,
+  'maneuver': `${ICON_BASE}/shapes/placemark_circle.png`,
+  'stage-end': `${ICON_BASE}/shapes/campground.png`,
+  'poi-hospital': `${ICON_BASE}/shapes/hospitals.png`,
+  'poi-fire-station': `${ICON_BASE}/shapes/firedept.png`,
+  'poi-police': `${ICON_BASE}/shapes/police.png`,
+  'poi-church': `${ICON_BASE}/shapes/placemark_square.png`,
+  'poi-gas': `${ICON_BASE}/shapes/gas_stations.png`,
+  'poi-school': `${ICON_BASE}/shapes/schools.png`,
+  'poi-defibrillator': `${ICON_BASE}/shapes/firstaid.png`,
+  'poi-emergency-phone': `${ICON_BASE}/shapes/phone.png`,
+  'poi-pharmacy': `${ICON_BASE}/shapes/pharmacy_rx.png`,
+  'poi-water': `${ICON_BASE}/shapes/drinking_water.png`,
+  'poi-shelter': `${ICON_BASE}/shapes/lodging.png`,
+  'poi-food': `${ICON_BASE}/shapes/grocery.png`,
+  'poi-toilets': `${ICON_BASE}/shapes/toilets.png`,
+  'poi': `${ICON_BASE}/shapes/info-i.png`,
+};
+
+// Line styles by style id: KML colors are aabbggrr
+const KML_LINES: Record<string, { color: string; width: number }> = {
+  'segment': { color: 'ff0000e6', width: 4 },
+  'segment-alt': { color: 'ffe66a00', width: 4 }, // Alternating so segment boundaries are visible
+  'alternative': { color: 'c0808080', width: 3 },
+};
+
+/**
+ * Generate a KML document for the plan
+ */
+export async function generateKmlDocument(plan: DirectionsPlan): Promise<string> {
+  const m = getMessages(plan.lang);
+  const { features } = buildFeatureCollection(plan);
+  const title = `${plan.config.start.name} → ${plan.config.end.name}`;
+
+  const tripFolder = (trip: string) => {
+    const ofTrip = features.filter(f => f.properties.trip === trip);
+    const folder = (name: string, kind: string) =>
+      generateFolder(name, ofTrip.filter(f => f.properties.kind === kind), m, plan.units);
+
+    return [
+      folder(m.layers.stops, 'stop'),
+      folder(m.layers.segments, 'segment'),
+      folder(m.layers.directions, 'maneuver'),
+      folder(m.document.backupRoutes, 'alternative'),
+      folder(m.layers.days, 'stage-end'),
+    ].filter(Boolean).join('\n');
+  };
+
+  const returnFolder = plan.returnTrip
+    ? `
+    <Folder>
+      <name>${escapeXml(m.document.returnTrip)}</name>
+      <open>0</open>
+${tripFolder('return')}
+    </Folder>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(title)}</name>
+    <description>${escapeXml(`${m.document.heading}: ${formatDistance(plan.route.distance, plan.units)}`)}</description>
+${generateStyles()}
+${tripFolder('outbound')}${returnFolder}
+${generateFolder(m.layers.pointsOfInterest, features.filter(f => f.properties.kind === 'poi'), m, plan.units)}
+  </Document>
+</kml>
+`;
+}
+
+function generateStyles(): string {
+  const iconStyles = Object.entries(KML_ICONS).map(([id, href]) => `    <Style id="${id}">
+      <IconStyle><Icon><href>${href}</href></Icon></IconStyle>${id === 'maneuver' ? '\n      <LabelStyle><scale>0</scale></LabelStyle>' : ''}
+    </Style>`);
+  const lineStyles = Object.entries(KML_LINES).map(([id, line]) => `    <Style id="${id}">
+      <LineStyle><color>${line.color}</color><width>${line.width}</width></LineStyle>
+    </Style>`);
+  return [...iconStyles, ...lineStyles].join('\n');
+}
+
+function generateFolder(name: string, features: GeoJSONFeature[], m: MessageCatalog, units: UnitSystem): string {
+  if (features.length === 0) return '';
+
+  return `    <Folder>
+      <name>${escapeXml(name)}</name>
+${features.map(f => generatePlacemark(f, m, units)).join('\n')}
+    </Folder>`;
+}
+
+function generatePlacemark(f: GeoJSONFeature, m: MessageCatalog, units: UnitSystem): string {
+  const { name, description, style } = describeFeature(f, m, units);
+  return `      <Placemark>
+        <name>${escapeXml(name)}</name>
+        <description>${escapeXml(description)}</description>
+        <styleUrl>#${style}</styleUrl>
+        ${generateGeometry(f.geometry)}
+      </Placemark>`;
+}
+
+/**
+ * Placemark name, description and style for each kind of feature
+ */
+function describeFeature(f: GeoJSONFeature, m: MessageCatalog, units: UnitSystem): { name: string; description: string; style: string } {
+  const p = f.properties;
+  const distance = typeof p.distance === 'number' ? formatDistance(p.distance, units) : '';
+  const duration = typeof p.duration === 'number' ? formatDuration(p.duration, m) : '';
+
+  switch (p.kind) {
+    case 'stop':
+      return { name: String(p.name), description: String(p.address || ''), style: `stop-${p.role}` };
+    case 'segment':
+      return {
+        name: `${p.index}: ${p.startName} → ${p.endName}`,
+        description: `${distance} · ~${duration}`,
+        style: Number(p.index) % 2 === 0 ? 'segment-alt' : 'segment',
+      };
+    case 'maneuver':
+      return { name: `${p.segmentIndex}.${p.step}`, description: String(p.description), style: 'maneuver' };
+    case 'alternative':
+      return { name: String(p.label), description: `${m.document.ifBlocked} · ${distance} · ~${duration}`, style: 'alternative' };
+    case 'stage-end':
+      return {
+        name: m.document.day(Number(p.day), Number(p.days)),
+        description: p.shelter ? `${m.document.overnight} ${p.shelter}` : `${distance} · ~${duration}`,
+        style: 'stage-end',
+      };
+    default: {
+      const style = KML_ICONS[`poi-${p.iconType}`] ? `poi-${p.iconType}` : 'poi';
+      return { name: String(p.name), description: String(p.type), style };
+    }
+  }
+}
+
+function generateGeometry(geometry: GeoJSONGeometry): string {
+  if (geometry.type === 'Point') {
+    return `<Point><coordinates>${geometry.coordinates.join(',')}</coordinates></Point>`;
+  }
+  const coords = geometry.coordinates.map(c => c.join(',')).join(' ');
+  return `<LineString><tessellate>1</tessellate><coordinates>${coords}</coordinates></LineString>`;
+}
@@ -0,0 +1,1057 @@
+/**
+ * PDF rendering - the printable document, generated without a browser
+ *
+ * Follows the HTML layout: route info, overview map, segment cards two per
+ * row (a card never splits across pages), a new page for each day and for
+ * the return trip, then backup routes and the survival/emergency notes.
+ * Maps are vector route lines over the embedded tiles.
+ */
+
+import PDFDocument from 'pdfkit';
+import {
+  AlternativeRoute,
+  AvoidArea,
+  Bounds,
+  DayStage,
+  DirectionsPlan,
+  ElevationProfile,
+  Location,
+  MapDimensions,
+  MessageCatalog,
+  POI,
+  Route,
+  RouteConfig,
+  RouteSegment,
+  RouteStep,
+  SegmentDataGaps,
+  SegmentLocation,
+  UnitSystem,
+} from '../types';
+import { MAP_CONFIG, OUTPUT_CONFIG } from '../config';
+import { getMessages } from '../i18n';
+import {
+  calculateDaysNeeded,
+  formatDistance,
+  formatDuration,
+  formatElevation,
+  stripHtml,
+} from '../utils/format';
+import { calculateBounds, sampleCoordinates } from '../utils/geo';
+import {
+  processStepsForDisplay,
+  filterStepsForDisplay,
+  formatStepInstruction,
+  formatStepText,
+  getStepIconType,
+  calculateHighwayDistance,
+} from '../processing/steps';
+import { isAreaInBox } from '../processing/avoid';
+import { sumElevationProfiles } from '../processing/elevation';
+import {
+  adjustBoundsForAspectRatio,
+  getAlternativeLabelCoord,
+  getHighwayPaths,
+  getProfileScale,
+  layoutPOIMarkers,
+  loadMapTiles,
+  toSvgX,
+  toSvgY,
+} from './svg';
+import { DIRECTION_ICONS, POI_ICONS } from './icons';
+import { alternativeLabel } from './geodata';
+import { getStatePoliceContacts } from './html';
+
+type PDFDoc = PDFKit.PDFDocument;
+
+// Layout in points, matching the 0.3in print margins and two-column grid of the HTML
+const LAYOUT = {
+  margin: 22,
+  gap: 5,
+  segmentMapSize: 84,
+  profileHeight: 24,
+  iconSize: 8,
+};
+
+const FONT_SIZE = {
+  heading: 16,
+  section: 10,
+  title: 8,
+  body: 7,
+  small: 6,
+};
+
+// Characters the standard PDF fonts (WinAnsi encoding) cannot show
+const STANDARD_FONT_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/⚠\s*/g, ''],
+  [/→/g, '->'],
+  [/−/g, '-'],
+  [/≈/g, '~'],
+  [/▲\s*/g, ''],
+];
+
+interface PdfContext {
+  doc: PDFDoc;
+  units: UnitSystem;
+  messages: MessageCatalog[]; // Primary language first, then the bilingual one if any
+  /** Using the built-in Helvetica rather than a configured font */
+  standardFonts: boolean;
+}
+
+type FontStyle = 'regular' | 'bold' | 'italic';
+
+interface TextStyle {
+  font?: FontStyle;
+  size?: number;
+  color?: string;
+  /** Color of the second-language line */
+  secondaryColor?: string;
+}
+
+interface SegmentCard {
+  segment: RouteSegment;
+  location: SegmentLocation;
+  steps: RouteStep[];
+  pois: POI[];
+  gaps?: SegmentDataGaps;
+  elevation: ElevationProfile | null;
+  avoidAreas: AvoidArea[];
+}
+
+/**
+ * Generate a PDF document for the plan
+ */
+export async function generatePdfDocument(plan: DirectionsPlan): Promise<Buffer> {
+  const { config, route, returnTrip } = plan;
+  const doc = new PDFDocument({
+    size: OUTPUT_CONFIG.pdfPageSize,
+    margin: LAYOUT.margin,
+    info: { Title: `${config.start.name} → ${config.end.name}`, Creator: 'emergency-directions' },
+  });
+
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>(resolve => doc.on('end', () => resolve(Buffer.concat(chunks))));
+
+  const ctx = createContext(doc, plan);
+  const m = ctx.messages[0];
+
+  drawText(ctx, tr(ctx, t => t.document.heading), LAYOUT.margin, doc.y, contentWidth(ctx), { font: 'bold', size: FONT_SIZE.heading });
+  doc.y += LAYOUT.gap;
+  drawRouteInfo(ctx, plan, returnTrip);
+  drawWarning(ctx, m);
+
+  await drawRouteSection(ctx, plan, tr(ctx, t => t.document.overview));
+
+  if (returnTrip) {
+    doc.addPage();
+    drawBanner(
+      ctx,
+      tr(ctx, t => t.document.returnTrip),
+      `${returnTrip.config.start.name} → ${returnTrip.config.end.name}`,
+      `${formatDistance(returnTrip.route.distance, ctx.units)} · ~${formatDuration(returnTrip.route.duration, ctx.messages[0])}`
+    );
+    await drawRouteSection(ctx, returnTrip, tr(ctx, t => t.document.returnOverview));
+  }
+
+  drawSurvival(ctx, m);
+  drawEmergencyBox(ctx, config);
+
+  doc.end();
+  return finished;
+}
+
+/**
+ * Fonts and display settings; non-Latin scripts need a configured font
+ */
+function createContext(doc: PDFDoc, plan: DirectionsPlan): PdfContext {
+  const langs = plan.secondaryLang ? [plan.lang, plan.secondaryLang] : [plan.lang];
+  const messages = langs.map(getMessages);
+  const { pdfFont, pdfBoldFont } = OUTPUT_CONFIG;
+
+  if (pdfFont) {
+    doc.registerFont('regular', pdfFont);
+    doc.registerFont('bold', pdfBoldFont || pdfFont);
+    doc.registerFont('italic', pdfFont);
+  } else {
+    const nonLatin = messages.find(m => /[^\u0000-\u024F\u2000-\u2BFF]/.test(m.document.heading));
+    if (nonLatin) {
+      throw new Error(`PDF output in ${nonLatin.languageName} needs a Unicode font: set PDF_FONT to a .ttf or .otf file`);
+    }
+    doc.registerFont('regular', 'Helvetica');
+    doc.registerFont('bold', 'Helvetica-Bold');
+    doc.registerFont('italic', 'Helvetica-Oblique');
+  }
+
+  return { doc, units: plan.units, messages, standardFonts: !pdfFont };
+}
+
+/**
+ * Localized text; in bilingual documents the second language follows the first
+ */
+function tr(ctx: PdfContext, text: (m: MessageCatalog) => string): string[] {
+  const [primary, secondary] = ctx.messages.map(text);
+  return secondary !== undefined && secondary !== primary ? [primary, secondary] : [primary];
+}
+
+function cleanText(ctx: PdfContext, text: string): string {
+  if (!ctx.standardFonts) return text;
+  return STANDARD_FONT_REPLACEMENTS.reduce((s, [pattern, replacement]) => s.replace(pattern, replacement), text);
+}
+
+/**
+ * Set font and size; second-language lines are italic, grey and slightly smaller
+ */
+function applyStyle(ctx: PdfContext, style: TextStyle, secondary = false): void {
+  const size = style.size || FONT_SIZE.body;
+  ctx.doc
+    .font(secondary ? 'italic' : style.font || 'regular')
+    .fontSize(secondary ? size * 0.9 : size)
+    .fillColor(secondary ? style.secondaryColor || '#444' : style.color || '#000');
+}
+
+/**
+ * Height of a (possibly bilingual) block of text
+ */
+function measureText(ctx: PdfContext, lines: string[], width: number, style: TextStyle = {}): number {
+  return lines.reduce((height, line, i) => {
+    applyStyle(ctx, style, i > 0);
+    return height + ctx.doc.heightOfString(cleanText(ctx, line), { width });
+  }, 0);
+}
+
+/**
+ * Draw a (possibly bilingual) block of text, returning its height
+ */
+function drawText(ctx: PdfContext, lines: string[], x: number, y: number, width: number, style: TextStyle = {}): number {
+  let height = 0;
+  lines.forEach((line, i) => {
+    applyStyle(ctx, style, i > 0);
+    const text = cleanText(ctx, line);
+    ctx.doc.text(text, x, y + height, { width });
+    height += ctx.doc.heightOfString(text, { width });
+  });
+  ctx.doc.x = LAYOUT.margin;
+  return height;
+}
+
+function contentWidth(ctx: PdfContext): number {
+  const { page } = ctx.doc;
+  return page.width - page.margins.left - page.margins.right;
+}
+
+function pageBottom(ctx: PdfContext): number {
+  const { page } = ctx.doc;
+  return page.height - page.margins.bottom;
+}
+
+function isPageTop(ctx: PdfContext): boolean {
+  return ctx.doc.y <= ctx.doc.page.margins.top;
+}
+
+/**
+ * Start a new page unless the block fits on this one
+ */
+function ensureSpace(ctx: PdfContext, height: number): void {
+  if (ctx.doc.y + height > pageBottom(ctx) && !isPageTop(ctx)) {
+    ctx.doc.addPage();
+  }
+}
+
+/**
+ * From/via/to, and the totals for the trip (and return trip)
+ */
+function drawRouteInfo(ctx: PdfContext, plan: DirectionsPlan, returnPlan?: DirectionsPlan): void {
+  const { doc } = ctx;
+  const { config } = plan;
+  const totals = ({ route: r, segmentElevations, paceProfile }: DirectionsPlan, label?: string[]) => {
+    const climb = sumElevationProfiles(segmentElevations);
+    return {
+      label: label || [],
+      name: formatDistance(r.distance, ctx.units),
+      details: [
+        tr(ctx, t => t.document.hoursWalking(String(Math.round(r.duration / 3600)))),
+        tr(ctx, t => t.document.planDays(calculateDaysNeeded(r.duration, paceProfile.hoursPerDay))),
+        climb ? tr(ctx, t => t.document.climbTotals(formatElevation(climb.ascent, ctx.units), formatElevation(climb.descent, ctx.units))) : [],
+        label ? [] : tr(ctx, t => t.document.paceLabel(t.paceProfiles[paceProfile.id] || paceProfile.label)),
+      ],
+    };
+  };
+
+  const columns = [
+    { label: tr(ctx, t => t.document.from), name: config.start.name, details: [[config.start.address]] },
+    ...(config.via.length > 0
+      ? [{ label: tr(ctx, t => t.document.via), name: config.via.map(v => v.name).join(' → '), details: [] }]
+      : []),
+    { label: tr(ctx, t => t.document.to), name: config.end.name, details: [[config.end.address]] },
+    totals(plan),
+    ...(returnPlan ? [totals(returnPlan, tr(ctx, t => t.document.returnTotals))] : []),
+  ];
+
+  const top = doc.y;
+  const width = (contentWidth(ctx) - LAYOUT.gap * (columns.length - 1)) / columns.length;
+  const heights = columns.map((column, i) => {
+    const x = LAYOUT.margin + i * (width + LAYOUT.gap);
+    let y = top;
+    y += drawText(ctx, column.label, x, y, width, { font: 'bold', size: FONT_SIZE.small, color: '#555' });
+    y += drawText(ctx, [column.name], x, y, width, { font: 'bold', size: FONT_SIZE.section });
+    column.details.filter(detail => detail[0]).forEach(detail => {
+      y += drawText(ctx, detail, x, y, width, { size: FONT_SIZE.small, color: '#333' });
+    });
+    return y - top;
+  });
+
+  doc.y = top + Math.max(...heights) + LAYOUT.gap;
+}
+
+function drawWarning(ctx: PdfContext, m: MessageCatalog): void {
+  const { doc } = ctx;
+  const padding = 4;
+  const width = contentWidth(ctx) - padding * 2;
+  const title = tr(ctx, t => t.document.warningTitle);
+  const text = tr(ctx, t => t.document.warning);
+  const height = measureText(ctx, title, width, { font: 'bold' }) + measureText(ctx, text, width) + padding * 2;
+
+  const top = doc.y;
+  doc.rect(LAYOUT.margin, top, contentWidth(ctx), height).lineWidth(1.5).stroke('#000');
+  let y = top + padding;
+  y += drawText(ctx, title, LAYOUT.margin + padding, y, width, { font: 'bold' });
+  drawText(ctx, text, LAYOUT.margin + padding, y, width);
+  doc.y = top + height + LAYOUT.gap;
+}
+
+/**
+ * Bar with a label, a title and stats - used for the return trip and for legs
+ */
+function drawBanner(ctx: PdfContext, label: string[], title: string, stats: string): void {
+  const { doc } = ctx;
+  const width = contentWidth(ctx);
+  const labelWidth = width * 0.25;
+  const statsWidth = width * 0.25;
+  const titleWidth = width - labelWidth - statsWidth - LAYOUT.gap * 2;
+
+  const top = doc.y;
+  const heights = [
+    drawText(ctx, label, LAYOUT.margin, top, labelWidth, { font: 'bold', size: FONT_SIZE.small }),
+    drawText(ctx, [title], LAYOUT.margin + labelWidth + LAYOUT.gap, top, titleWidth, { font: 'bold', size: FONT_SIZE.title }),
+  ];
+  applyStyle(ctx, { font: 'bold', size: FONT_SIZE.small });
+  doc.text(cleanText(ctx, stats), LAYOUT.margin + width - statsWidth, top, { width: statsWidth, align: 'right' });
+  doc.x = LAYOUT.margin;
+
+  const bottom = top + Math.max(...heights) + 1;
+  doc.moveTo(LAYOUT.margin, bottom).lineTo(LAYOUT.margin + width, bottom).lineWidth(1.5).stroke('#000');
+  doc.y = bottom + LAYOUT.gap;
+}
+
+/**
+ * Overview map, segments and backup plans for one direction of travel
+ */
+async function drawRouteSection(ctx: PdfContext, plan: DirectionsPlan, overviewTitle: string[]): Promise<void> {
+  const { doc } = ctx;
+  const width = contentWidth(ctx);
+  const dims = MAP_CONFIG.overview;
+  const mapHeight = (dims.height * width) / dims.width;
+
+  ensureSpace(ctx, measureText(ctx, overviewTitle, width, { font: 'bold', size: FONT_SIZE.section }) + mapHeight);
+  const mapTop = doc.y + drawText(ctx, overviewTitle, LAYOUT.margin, doc.y, width, { font: 'bold', size: FONT_SIZE.section });
+  await drawOverviewMap(ctx, plan.route.coordinates, plan.alternatives, LAYOUT.margin, mapTop, width, plan.avoidAreas);
+  doc.y = mapTop + mapHeight + LAYOUT.gap;
+  drawAvoidSummary(ctx, plan);
+  drawHighwaySummary(ctx, plan);
+
+  await drawLegs(ctx, plan);
+  drawAlternatives(ctx, plan.route, plan.alternatives);
+}
+
+/**
+ * Notice under the overview map naming the avoid areas, and any the route
+ * could not get around
+ */
+function drawAvoidSummary(ctx: PdfContext, plan: DirectionsPlan): void {
+  if (plan.avoidAreas.length === 0) return;
+
+  const avoided = [...new Set(plan.avoidAreas.map(a => a.name))].filter(name => !plan.crossedAreas.includes(name));
+  const text = (t: MessageCatalog) => [
+    avoided.length > 0 ? t.document.avoidedAreas(avoided.join(', ')) : '',
+    plan.crossedAreas.length > 0 ? t.document.areasNotAvoided(plan.crossedAreas.join(', ')) : '',
+  ].filter(Boolean).join(' ');
+  drawNoticeBox(ctx, tr(ctx, t => t.document.avoidTitle), tr(ctx, text));
+}
+
+/**
+ * Warning under the overview map when the route uses highways: total distance
+ * and the segments to look at
+ */
+function drawHighwaySummary(ctx: PdfContext, plan: DirectionsPlan): void {
+  const perSegment = plan.segmentSteps.map(calculateHighwayDistance);
+  const total = perSegment.reduce((sum, d) => sum + d, 0);
+  if (total === 0) return;
+
+  const indices = plan.segments.filter((_, i) => perSegment[i] > 0).map(s => s.index);
+  drawNoticeBox(
+    ctx,
+    tr(ctx, t => t.document.highwayTitle),
+    tr(ctx, t => t.document.highwaySummary(formatDistance(total, ctx.units), indices))
+  );
+}
+
+/**
+ * Boxed notice across the page: bold title, then the text
+ */
+function drawNoticeBox(ctx: PdfContext, title: string[], text: string[]): void {
+  const { doc } = ctx;
+  const padding = 4;
+  const width = contentWidth(ctx) - padding * 2;
+  const height = measureText(ctx, title, width, { font: 'bold' }) + measureText(ctx, text, width) + padding * 2;
+
+  ensureSpace(ctx, height);
+  const top = doc.y;
+  doc.rect(LAYOUT.margin, top, contentWidth(ctx), height).lineWidth(1.5).stroke('#000');
+  const y = top + padding + drawText(ctx, title, LAYOUT.margin + padding, top + padding, width, { font: 'bold' });
+  drawText(ctx, text, LAYOUT.margin + padding, y, width);
+  doc.y = top + height + LAYOUT.gap;
+}
+
+/**
+ * Segments, grouped into one chapter per leg when the route has via points
+ */
+async function drawLegs(ctx: PdfContext, plan: DirectionsPlan): Promise<void> {
+  const { config, route, segments, segmentLocations, segmentSteps, segmentPOIs, segmentDataGaps, stages } = plan;
+  const cardAt = (i: number): SegmentCard => ({
+    segment: segments[i],
+    location: segmentLocations[i],
+    steps: segmentSteps[i],
+    pois: segmentPOIs[i] || [],
+    gaps: segmentDataGaps[i],
+    elevation: plan.segmentElevations[i],
+    avoidAreas: plan.avoidAreas,
+  });
+
+  if (route.legs.length <= 1) {
+    await drawSegments(ctx, segments.map((_, i) => cardAt(i)), stages);
+    return;
+  }
+
+  const stops = [config.start, ...config.via, config.end];
+
+  for (let legIndex = 0; legIndex < route.legs.length; legIndex++) {
+    const leg = route.legs[legIndex];
+    const cards = segments
+      .map((seg, i) => (seg.legIndex === legIndex ? cardAt(i) : null))
+      .filter((card): card is SegmentCard => card !== null);
+    const from = stops[legIndex];
+    const to = stops[legIndex + 1];
+
+    // Keep the leg header with its first row of segments
+    ensureSpace(ctx, 20 + (cards.length > 0 ? measureSegmentCard(ctx, cards[0], cardWidth(ctx)) : 0));
+    drawBanner(
+      ctx,
+      tr(ctx, t => t.document.leg(legIndex + 1, route.legs.length)),
+      `${from.name} → ${to.name}`,
+      `${formatDistance(leg.distance, ctx.units)} · ~${formatDuration(leg.duration, ctx.messages[0])}`
+    );
+    await drawSegments(ctx, cards, stages);
+
+    if (legIndex < route.legs.length - 1) {
+      drawStop(ctx, to, stops[legIndex + 2]);
+    }
+  }
+}
+
+/**
+ * Arrival/departure notice for an intermediate stop
+ */
+function drawStop(ctx: PdfContext, stop: Location, next: Location): void {
+  const { doc } = ctx;
+  const padding = 4;
+  const width = contentWidth(ctx) - padding * 2 - 4;
+  const arrive = tr(ctx, t => t.document.arrive).map(label => `${label} ${stop.name}${stop.address ? `  ${stop.address}` : ''}`);
+  const depart = tr(ctx, t => `${t.document.depart} ${stop.name} → ${t.document.continueTo(next.name)}`);
+  const height = measureText(ctx, arrive, width) + measureText(ctx, depart, width) + padding * 2;
+
+  ensureSpace(ctx, height);
+  const top = doc.y;
+  doc.rect(LAYOUT.margin, top, contentWidth(ctx), height).lineWidth(1.5).stroke('#000');
+  doc.rect(LAYOUT.margin, top, 4, height).fill('#000');
+  const x = LAYOUT.margin + 4 + padding;
+  const y = top + padding + drawText(ctx, arrive, x, top + padding, width);
+  drawText(ctx, depart, x, y, width);
+  doc.y = top + height + LAYOUT.gap;
+}
+
+function cardWidth(ctx: PdfContext): number {
+  return (contentWidth(ctx) - LAYOUT.gap) / 2;
+}
+
+/**
+ * Segment cards two per row; a row never splits across pages, and each day starts a new page
+ */
+async function drawSegments(ctx: PdfContext, cards: SegmentCard[], stages: DayStage[]): Promise<void> {
+  const { doc } = ctx;
+  const width = cardWidth(ctx);
+  let row: SegmentCard[] = [];
+
+  const flushRow = async () => {
+    if (row.length === 0) return;
+    const height = Math.max(...row.map(card => measureSegmentCard(ctx, card, width)));
+    ensureSpace(ctx, height);
+    const top = doc.y;
+    for (let i = 0; i < row.length; i++) {
+      await drawSegmentCard(ctx, row[i], LAYOUT.margin + i * (width + LAYOUT.gap), top, width, height);
+    }
+    doc.y = top + height + LAYOUT.gap;
+    row = [];
+  };
+
+  for (let i = 0; i < cards.length; i++) {
+    // Headers for the days starting in this segment - a long one can hold several
+    for (const stage of stages.filter(st => st.firstSegmentIndex === cards[i].segment.index)) {
+      await flushRow();
+      // The first day follows the overview map; later days start a page
+      if (stage.day > 1) doc.addPage();
+      drawDayHeader(ctx, stage, stages.length);
+    }
+
+    row.push(cards[i]);
+    if (row.length === 2) await flushRow();
+  }
+  await flushRow();
+}
+
+function measureSegmentHeader(ctx: PdfContext, card: SegmentCard, width: number): number {
+  const textWidth = width - 24;
+  const title = `${card.location.startName} → ${card.location.endName}`;
+  return Math.max(14, measureText(ctx, [title], textWidth, { font: 'bold', size: FONT_SIZE.title }) + measureText(ctx, ['·'], textWidth, { size: FONT_SIZE.small })) + 4;
+}
+
+/**
+ * "Data incomplete" notice for a segment whose place names or POIs could not be fetched
+ */
+function buildDataNotice(ctx: PdfContext, gaps: SegmentDataGaps | undefined): string[] {
+  if (!gaps || (!gaps.placeNames && !gaps.pois)) return [];
+  return tr(ctx, t => [
+    t.document.dataIncomplete,
+    gaps.placeNames ? t.document.placeNamesUnavailable : '',
+    gaps.pois ? t.document.poisUnavailable : '',
+  ].filter(Boolean).join(' '));
+}
+
+function measureDataNotice(ctx: PdfContext, card: SegmentCard, width: number): number {
+  const notice = buildDataNotice(ctx, card.gaps);
+  return notice.length > 0 ? measureText(ctx, notice, width - 6, { font: 'bold', size: FONT_SIZE.small }) + 3 : 0;
+}
+
+function measureSegmentCard(ctx: PdfContext, card: SegmentCard, width: number): number {
+  const stepsWidth = width - LAYOUT.segmentMapSize - 6;
+  const stepsHeight = measureSteps(ctx, buildStepItems(ctx, card.steps), stepsWidth) + 4;
+  const profileHeight = card.elevation ? LAYOUT.profileHeight : 0;
+  return measureSegmentHeader(ctx, card, width) + measureDataNotice(ctx, card, width) + Math.max(LAYOUT.segmentMapSize, stepsHeight) + profileHeight;
+}
+
+async function drawSegmentCard(ctx: PdfContext, card: SegmentCard, x: number, y: number, width: number, height: number): Promise<void> {
+  const { doc } = ctx;
+  const { segment, location } = card;
+  const headerHeight = measureSegmentHeader(ctx, card, width);
+
+  // Header: number box, title and stats on grey
+  doc.rect(x, y, width, headerHeight).fill('#f0f0f0');
+  doc.rect(x, y, 18, headerHeight).fill('#000');
+  applyStyle(ctx, { font: 'bold', size: FONT_SIZE.section });
+  doc.fillColor('#fff').text(String(segment.index), x, y + (headerHeight - FONT_SIZE.section) / 2, { width: 18, align: 'center' });
+
+  const textX = x + 22;
+  const textWidth = width - 24;
+  let textY = y + 2;
+  textY += drawText(ctx, [`${location.startName} → ${location.endName}`], textX, textY, textWidth, { font: 'bold', size: FONT_SIZE.title });
+  const highwayDistance = calculateHighwayDistance(card.steps);
+  const highway = highwayDistance > 0 ? ` · ${ctx.messages[0].document.highwayExposure(formatDistance(highwayDistance, ctx.units))}` : '';
+  const climb = card.elevation
+    ? ` · ${ctx.messages[0].document.climbTotals(formatElevation(card.elevation.ascent, ctx.units), formatElevation(card.elevation.descent, ctx.units))}`
+    : '';
+  drawText(ctx, [`${formatDistance(segment.distance, ctx.units)} · ~${formatDuration(segment.duration, ctx.messages[0])}${climb}${highway}`], textX, textY, textWidth, { size: FONT_SIZE.small, color: '#333' });
+
+  // Notice under the header when lookups failed
+  const noticeHeight = measureDataNotice(ctx, card, width);
+  if (noticeHeight > 0) {
+    drawText(ctx, buildDataNotice(ctx, card.gaps), x + 3, y + headerHeight + 1.5, width - 6, { font: 'bold', size: FONT_SIZE.small });
+    doc.moveTo(x, y + headerHeight + noticeHeight).lineTo(x + width, y + headerHeight + noticeHeight).lineWidth(0.75).stroke('#000');
+  }
+
+  // Body: map on the left, directions on the right, elevation profile along the bottom
+  const bodyTop = y + headerHeight + noticeHeight;
+  const bodyBottom = y + height - (card.elevation ? LAYOUT.profileHeight : 0);
+  await drawSegmentMap(ctx, card, x, bodyTop, LAYOUT.segmentMapSize);
+  doc.moveTo(x + LAYOUT.segmentMapSize, bodyTop).lineTo(x + LAYOUT.segmentMapSize, bodyBottom).lineWidth(0.75).stroke('#000');
+  if (card.elevation) {
+    doc.moveTo(x, bodyBottom).lineTo(x + width, bodyBottom).lineWidth(0.75).stroke('#000');
+    drawElevationProfile(ctx, card.elevation, x, bodyBottom, width, LAYOUT.profileHeight);
+  }
+
+  const stepsX = x + LAYOUT.segmentMapSize + 3;
+  drawSteps(ctx, buildStepItems(ctx, card.steps), stepsX, bodyTop + 2, width - LAYOUT.segmentMapSize - 6);
+
+  doc.rect(x, y, width, height).lineWidth(0.75).stroke('#000');
+}
+
+/**
+ * Elevation profile: shaded height against distance, lowest and highest points labelled on the right
+ */
+function drawElevationProfile(ctx: PdfContext, profile: ElevationProfile, x: number, y: number, width: number, height: number): void {
+  const { doc } = ctx;
+  const labelWidth = 38;
+  const plotWidth = width - labelWidth;
+  const scale = getProfileScale(profile, plotWidth, height - 2);
+  const trace = () => {
+    profile.distances.forEach((d, i) => {
+      const px = x + scale.x(d);
+      const py = y + 2 + scale.y(profile.elevations[i]);
+      if (i === 0) doc.moveTo(px, py);
+      else doc.lineTo(px, py);
+    });
+    return doc;
+  };
+
+  trace().lineTo(x + plotWidth, y + height).lineTo(x, y + height).closePath().fill('#ddd');
+  trace().lineWidth(0.75).lineJoin('round').stroke('#000');
+  doc.moveTo(x + plotWidth, y).lineTo(x + plotWidth, y + height).lineWidth(0.3).stroke('#999');
+  drawText(ctx, [formatElevation(scale.max, ctx.units)], x + plotWidth + 2, y + 2, labelWidth - 3, { font: 'bold', size: FONT_SIZE.small });
+  drawText(ctx, [formatElevation(scale.min, ctx.units)], x + plotWidth + 2, y + height - FONT_SIZE.small - 3, labelWidth - 3, { size: FONT_SIZE.small });
+}
+
+/**
+ * Day header: the day's totals, where to spend the night and how to set off next morning
+ */
+function drawDayHeader(ctx: PdfContext, stage: DayStage, totalDays: number): void {
+  const { doc } = ctx;
+  const padding = 4;
+  const width = contentWidth(ctx) - padding * 2;
+  const hours = stage.duration / 3600;
+  const isLastDay = stage.day === totalDays;
+
+  const title = tr(ctx, t => t.document.day(stage.day, totalDays));
+  const stats = tr(ctx, t => `${formatDistance(stage.distance, ctx.units)} · ${t.document.hoursWalking(hours.toFixed(1))}`);
+
+  let overnight: string[];
+  if (isLastDay) {
+    overnight = tr(ctx, t => `${t.document.end} ${t.document.arriveAtDestination}`);
+  } else if (stage.overnight) {
+    const shelter = stage.overnight;
+    const offRoute = stage.overnightOffRoute !== undefined && stage.overnightOffRoute >= 50
+      ? formatDistance(stage.overnightOffRoute, ctx.units)
+      : undefined;
+    overnight = tr(ctx, t => {
+      const type = t.poiTypes[shelter.iconType] || shelter.type;
+      return `${t.document.overnight} ${shelter.name} (${offRoute ? `${type} · ${t.document.offRoute(offRoute)}` : type})`;
+    });
+  } else {
+    const [lon, lat] = stage.endCoord;
+    const coords = `${lat.toFixed(4)}, ${lon.toFixed(4)}`;
+    overnight = tr(ctx, t => `${t.document.overnight} ${t.document.noShelter(coords)}`);
+  }
+
+  const morningTitle = tr(ctx, t => t.document.nextMorning);
+  const morning = stage.morningSteps.length > 0 ? buildStepItems(ctx, stage.morningSteps) : [];
+
+  const height = padding * 2
+    + measureText(ctx, title, width, { font: 'bold', size: FONT_SIZE.section })
+    + measureText(ctx, stats, width, { font: 'bold' })
+    + measureText(ctx, overnight, width)
+    + (morning.length > 0 ? measureText(ctx, morningTitle, width, { font: 'bold' }) + measureSteps(ctx, morning, width) : 0);
+
+  ensureSpace(ctx, height);
+  const top = doc.y;
+  const x = LAYOUT.margin + padding;
+  let y = top + padding;
+  y += drawText(ctx, title, x, y, width, { font: 'bold', size: FONT_SIZE.section });
+  y += drawText(ctx, stats, x, y, width, { font: 'bold' });
+  y += drawText(ctx, overnight, x, y, width);
+  if (morning.length > 0) {
+    y += drawText(ctx, morningTitle, x, y, width, { font: 'bold' });
+    drawSteps(ctx, morning, x, y, width);
+  }
+
+  doc.rect(LAYOUT.margin, top, contentWidth(ctx), height).lineWidth(1.5).stroke('#000');
+  doc.y = top + height + LAYOUT.gap;
+}
+
+/**
+ * Condensed backup plans: totals, where each leaves and rejoins the
+ * primary route, and only the turns that differ from it
+ */
+function drawAlternatives(ctx: PdfContext, primary: Route, alternatives: AlternativeRoute[]): void {
+  if (alternatives.length === 0) return;
+  const { doc } = ctx;
+  const { units } = ctx;
+  const width = contentWidth(ctx);
+  const heading = tr(ctx, t => t.document.backupRoutes);
+
+  alternatives.forEach((alt, i) => {
+    const extra = alt.route.distance - primary.distance;
+    const extraText = Math.abs(extra) >= 100 ? ` (${extra > 0 ? '+' : '−'}${formatDistance(Math.abs(extra), units)})` : '';
+    const title = tr(ctx, t => `${alternativeLabel(i, t)} · ${t.document.ifBlocked}`);
+    const stats = `${formatDistance(alt.route.distance, units)} · ~${formatDuration(alt.route.duration, ctx.messages[0])}${extraText}`;
+
+    const divergences = alt.divergences.map(d => tr(ctx, t => {
+      const leave = t.document.leaveAt(formatDistance(d.divergeAlongPrimary, units), d.divergeName || undefined);
+      const rejoin = d.rejoinAlongPrimary !== null
+        ? t.document.rejoinAt(formatDistance(d.rejoinAlongPrimary, units), d.rejoinName || undefined)
+        : t.document.continueToDestination;
+      return stripHtml(`${leave} · ${rejoin} · ${t.document.offMainRoute(formatDistance(d.distance, units))}`);
+    }));
+    const steps = buildStepItems(ctx, alt.steps);
+
+    // Keep the heading, plan header and divergences together with the first steps
+    const headerHeight = (i === 0 ? measureText(ctx, heading, width, { font: 'bold', size: FONT_SIZE.section }) : 0)
+      + measureText(ctx, title, width, { font: 'bold', size: FONT_SIZE.title })
+      + measureText(ctx, [stats], width)
+      + divergences.reduce((sum, lines) => sum + measureText(ctx, lines, width - 8), 0);
+    ensureSpace(ctx, headerHeight + measureSteps(ctx, steps.slice(0, 3), width));
+
+    if (i === 0) {
+      doc.y += drawText(ctx, heading, LAYOUT.margin, doc.y, width, { font: 'bold', size: FONT_SIZE.section });
+    }
+    doc.y += drawText(ctx, title, LAYOUT.margin, doc.y, width, { font: 'bold', size: FONT_SIZE.title });
+    doc.y += drawText(ctx, [stats], LAYOUT.margin, doc.y, width, { color: '#333' });
+    divergences.forEach(lines => {
+      doc.y += drawText(ctx, lines, LAYOUT.margin + 8, doc.y, width - 8, { size: FONT_SIZE.small });
+    });
+    doc.y += 2;
+    doc.y = drawSteps(ctx, steps, LAYOUT.margin, doc.y, width, true) + LAYOUT.gap;
+  });
+}
+
+function drawSurvival(ctx: PdfContext, m: MessageCatalog): void {
+  const { doc } = ctx;
+  const width = (contentWidth(ctx) - LAYOUT.gap) / 2;
+  const items = m.document.survival.map((_, i) => [
+    ...tr(ctx, t => t.document.survival[i].title),
+    ...tr(ctx, t => t.document.survival[i].text),
+  ]);
+  const titleLines = tr(ctx, t => t.document.survival[0].title).length;
+
+  // Two columns, like the HTML grid
+  for (let i = 0; i < items.length; i += 2) {
+    const row = items.slice(i, i + 2);
+    const measure = (lines: string[]) =>
+      measureText(ctx, lines.slice(0, titleLines), width, { font: 'bold' }) + measureText(ctx, lines.slice(titleLines), width);
+    const height = Math.max(...row.map(measure));
+    ensureSpace(ctx, height);
+
+    const top = doc.y;
+    row.forEach((lines, col) => {
+      const x = LAYOUT.margin + col * (width + LAYOUT.gap);
+      const y = top + drawText(ctx, lines.slice(0, titleLines), x, top, width, { font: 'bold' });
+      drawText(ctx, lines.slice(titleLines), x, y, width);
+    });
+    doc.y = top + height + LAYOUT.gap;
+  }
+}
+
+function drawEmergencyBox(ctx: PdfContext, config: RouteConfig): void {
+  const { doc } = ctx;
+  const items = [
+    { label: tr(ctx, t => t.document.emergency), value: '911' },
+    ...getStatePoliceContacts(config).map(info => ({ label: [info.name], value: info.phone })),
+  ];
+  const padding = 4;
+  const width = (contentWidth(ctx) - padding * 2) / items.length;
+  const height = padding * 2 + Math.max(...items.map(item =>
+    measureText(ctx, item.label, width, { font: 'bold', size: FONT_SIZE.small }) + measureText(ctx, [item.value], width, { font: 'bold', size: FONT_SIZE.section })
+  ));
+
+  ensureSpace(ctx, height);
+  const top = doc.y;
+  doc.rect(LAYOUT.margin, top, contentWidth(ctx), height).fill('#000');
+  items.forEach((item, i) => {
+    const x = LAYOUT.margin + padding + i * width;
+    let y = top + padding;
+    y += drawText(ctx, item.label, x, y, width, { font: 'bold', size: FONT_SIZE.small, color: '#fff', secondaryColor: '#ccc' });
+    drawText(ctx, [item.value], x, y, width, { font: 'bold', size: FONT_SIZE.section, color: '#fff' });
+  });
+  doc.y = top + height + LAYOUT.gap;
+}
+
+// ── Directions ──────────────────────────────────────────────────────────────
+
+interface StepItem {
+  icon: string;
+  lines: string[];
+  /** On a highway: badge before the text and a bar beside it */
+  highway?: boolean;
+}
+
+/**
+ * Display steps as icon + text; the distance is only shown after the primary language
+ */
+function buildStepItems(ctx: PdfContext, steps: RouteStep[]): StepItem[] {
+  const displaySteps = filterStepsForDisplay(processStepsForDisplay(steps));
+  if (displaySteps.length === 0) {
+    return [{ icon: 'straight', lines: tr(ctx, t => t.instructions.followRoute) }];
+  }
+
+  const [primary, secondary] = ctx.messages;
+  return displaySteps.map(step => {
+    const text = stripHtml(formatStepInstruction(step, ctx.units, primary).replace('<span class="step-dist">', ' · '));
+    const climb = step.climb ? `${primary.document.steepClimbBadge(formatElevation(step.climb.ascent, ctx.units), step.climb.grade)} ` : '';
+    const badged = `${step.highway ? `${primary.document.highwayBadge} ` : ''}${climb}${text}`;
+    const lines = secondary ? [badged, stripHtml(formatStepText(step, secondary))] : [badged];
+    return { icon: getStepIconType(step.instruction, step.modifier), lines, highway: step.highway };
+  });
+}
+
+function stepTextWidth(width: number): number {
+  return width - LAYOUT.iconSize - 3;
+}
+
+function measureSteps(ctx: PdfContext, items: StepItem[], width: number): number {
+  return items.reduce((sum, item) =>
+    sum + Math.max(LAYOUT.iconSize, measureText(ctx, item.lines, stepTextWidth(width))) + 1.5, 0);
+}
+
+/**
+ * Draw a step list, returning the y below it
+ * With flow, long lists (backup routes) continue on the next page
+ */
+function drawSteps(ctx: PdfContext, items: StepItem[], x: number, y: number, width: number, flow = false): number {
+  const textWidth = stepTextWidth(width);
+  for (const item of items) {
+    const height = Math.max(LAYOUT.iconSize, measureText(ctx, item.lines, textWidth));
+    if (flow && y + height > pageBottom(ctx)) {
+      ctx.doc.addPage();
+      y = ctx.doc.y;
+    }
+    if (item.highway) {
+      ctx.doc.rect(x - 2, y, 1, height).fill('#000');
+    }
+    drawIcon(ctx.doc, DIRECTION_ICONS[item.icon] || DIRECTION_ICONS['straight'], x, y, LAYOUT.iconSize);
+    drawText(ctx, item.lines, x + LAYOUT.iconSize + 3, y, textWidth);
+    y += height + 1.5;
+  }
+  return y;
+}
+
+// ── Maps ────────────────────────────────────────────────────────────────────
+
+/**
+ * Draw map content in the map's own SVG coordinate space, scaled into place
+ * and clipped, over a grey background and the embedded tiles
+ */
+async function drawMapFrame(
+  ctx: PdfContext,
+  x: number,
+  y: number,
+  displayWidth: number,
+  dims: MapDimensions,
+  bounds: Bounds,
+  tileServerUrl: string,
+  maxZoom: number,
+  drawContent: (scale: number) => void
+): Promise<void> {
+  const { doc } = ctx;
+  const { width, height } = dims;
+  const scale = displayWidth / width;
+  const tiles = await loadMapTiles(bounds, width, height, tileServerUrl, maxZoom);
+
+  doc.save();
+  doc.translate(x, y).scale(scale);
+  doc.rect(0, 0, width, height).fill('#e8e8e8');
+  doc.save();
+  doc.rect(0, 0, width, height).clip();
+  for (const tile of tiles) {
+    if (!tile.dataUri) continue;
+    try {
+      doc.image(tile.dataUri, tile.left, tile.top, { width: tile.width, height: tile.height });
+    } catch {
+      // Unsupported or corrupt tile image: leave the background showing
+    }
+  }
+  drawContent(scale);
+  doc.restore();
+  doc.rect(0, 0, width, height).lineWidth(1 / scale).stroke('#999');
+  doc.restore();
+}
+
+function tracePath(doc: PDFDoc, coordinates: Array<[number, number]>, bounds: Bounds, dims: MapDimensions): PDFDoc {
+  coordinates.forEach(([lon, lat], i) => {
+    const x = toSvgX(lon, bounds, dims.width);
+    const y = toSvgY(lat, bounds, dims.height);
+    if (i === 0) doc.moveTo(x, y);
+    else doc.lineTo(x, y);
+  });
+  return doc;
+}
+
+/**
+ * Avoid areas as hatched polygons with a solid outline
+ * Spacing and line width are in map units
+ */
+function drawAvoidAreas(doc: PDFDoc, areas: AvoidArea[], bounds: Bounds, dims: MapDimensions, spacing: number, lineWidth: number): void {
+  const traceRings = (area: AvoidArea) => {
+    for (const ring of area.rings) {
+      tracePath(doc, ring, bounds, dims).closePath();
+    }
+    return doc;
+  };
+
+  for (const area of areas.filter(a => isAreaInBox(a, bounds))) {
+    // Diagonal lines across the whole map, clipped to the polygon (holes excluded)
+    doc.save();
+    traceRings(area).clip('even-odd');
+    for (let offset = -dims.height; offset < dims.width; offset += spacing) {
+      doc.moveTo(offset, dims.height).lineTo(offset + dims.height, 0);
+    }
+    doc.lineWidth(lineWidth).stroke('#000');
+    doc.restore();
+
+    traceRings(area).lineWidth(lineWidth).stroke('#000');
+  }
+}
+
+/**
+ * Route line as a black stroke over a white casing
+ */
+function strokeRoute(doc: PDFDoc, coordinates: Array<[number, number]>, bounds: Bounds, dims: MapDimensions, casing: number, line: number): void {
+  doc.lineCap('round').lineJoin('round');
+  tracePath(doc, coordinates, bounds, dims).lineWidth(casing).stroke('#fff');
+  tracePath(doc, coordinates, bounds, dims).lineWidth(line).stroke('#000');
+}
+
+async function drawOverviewMap(
+  ctx: PdfContext,
+  coordinates: Array<[number, number]>,
+  alternatives: AlternativeRoute[],
+  x: number,
+  y: number,
+  displayWidth: number,
+  avoidAreas: AvoidArea[] = []
+): Promise<void> {
+  const { doc } = ctx;
+  const dims = MAP_CONFIG.overview;
+  const m = ctx.messages[0];
+
+  // Fit the primary route and every alternative
+  const rawBounds = calculateBounds([...coordinates, ...alternatives.flatMap(alt => alt.route.coordinates)]);
+  const bounds = adjustBoundsForAspectRatio(rawBounds, dims.width, dims.height);
+  const sampledCoords = sampleCoordinates(coordinates, MAP_CONFIG.maxOverviewPoints);
+
+  await drawMapFrame(ctx, x, y, displayWidth, dims, bounds, MAP_CONFIG.overviewTileServerUrl, 11, () => {
+    drawAvoidAreas(doc, avoidAreas, bounds, dims, 5, 0.75);
+
+    // Alternatives as dashed lines, labelled B, C, ... at their longest detour
+    for (const alt of alternatives) {
+      const altCoords = sampleCoordinates(alt.route.coordinates, MAP_CONFIG.maxOverviewPoints);
+      doc.lineCap('round').lineJoin('round');
+      tracePath(doc, altCoords, bounds, dims).lineWidth(3.5).stroke('#fff');
+      tracePath(doc, altCoords, bounds, dims).lineWidth(1.5).dash(5, { space: 3 }).stroke('#555');
+      doc.undash();
+
+      const [lon, lat] = getAlternativeLabelCoord(alt, altCoords);
+      const labelX = toSvgX(lon, bounds, dims.width);
+      const labelY = toSvgY(lat, bounds, dims.height);
+      doc.circle(labelX, labelY, 6).lineWidth(1).fillAndStroke('#fff', '#555');
+      applyStyle(ctx, { font: 'bold', size: 8 });
+      doc.text(cleanText(ctx, alt.label.replace('Plan ', '')), labelX - 6, labelY - 3.5, { width: 12, align: 'center', lineBreak: false });
+    }
+
+    strokeRoute(doc, sampledCoords, bounds, dims, 4, 2);
+
+    const [startLon, startLat] = coordinates[0];
+    const [endLon, endLat] = coordinates[coordinates.length - 1];
+    drawEndpoint(ctx, toSvgX(startLon, bounds, dims.width), toSvgY(startLat, bounds, dims.height), 7, 2, false, m.document.mapStart);
+    drawEndpoint(ctx, toSvgX(endLon, bounds, dims.width), toSvgY(endLat, bounds, dims.height), 7, 2, true, m.document.mapEnd);
+  });
+}
+
+async function drawSegmentMap(ctx: PdfContext, card: SegmentCard, x: number, y: number, displayWidth: number): Promise<void> {
+  const { doc } = ctx;
+  const dims = MAP_CONFIG.segment;
+  const { coordinates, startCoord, endCoord } = card.segment;
+
+  const bounds = adjustBoundsForAspectRatio(card.segment.bounds, dims.width, dims.height);
+  const sampledCoords = sampleCoordinates(coordinates, MAP_CONFIG.maxSegmentPoints);
+
+  const startX = toSvgX(startCoord[0], bounds, dims.width);
+  const startY = toSvgY(startCoord[1], bounds, dims.height);
+  const endX = toSvgX(endCoord[0], bounds, dims.width);
+  const endY = toSvgY(endCoord[1], bounds, dims.height);
+
+  await drawMapFrame(ctx, x, y, displayWidth, dims, bounds, MAP_CONFIG.tileServerUrl, 16, scale => {
+    drawAvoidAreas(doc, card.avoidAreas, bounds, dims, 3 / scale, 0.5 / scale);
+
+    // Line widths stay the same size in points whatever the map scale
+    strokeRoute(doc, sampledCoords, bounds, dims, 3.5 / scale, 1.75 / scale);
+
+    // Highway stretches as a hollow dashed line
+    for (const path of getHighwayPaths(card.steps)) {
+      const highwayCoords = sampleCoordinates(path, MAP_CONFIG.maxSegmentPoints);
+      doc.lineCap('butt');
+      tracePath(doc, highwayCoords, bounds, dims).lineWidth(4 / scale).stroke('#000');
+      tracePath(doc, highwayCoords, bounds, dims).lineWidth(1.5 / scale).dash(2.5 / scale, { space: 1.5 / scale }).stroke('#fff');
+      doc.undash();
+    }
+
+    const markers = layoutPOIMarkers(card.pois, bounds, dims.width, dims.height, sampledCoords, startX, startY, endX, endY);
+    for (const { poi, name, dotX, dotY, labelX, labelY } of markers) {
+      doc.circle(dotX, dotY, 1.5).fill('#000');
+      doc.moveTo(dotX, dotY).lineTo(labelX, labelY).lineWidth(0.3).stroke('#000');
+      doc.roundedRect(labelX - 4, labelY - 4, 8, 8, 1).lineWidth(0.4).fillAndStroke('#fff', '#000');
+      drawIcon(doc, POI_ICONS[poi.iconType] || POI_ICONS['hospital'], labelX - 3, labelY - 3, 6);
+      applyStyle(ctx, { size: 2.5 });
+      doc.text(cleanText(ctx, name), labelX - 15, labelY + 5, { width: 30, align: 'center', lineBreak: false });
+    }
+
+    drawEndpoint(ctx, startX, startY, 5, 1.5, false);
+    drawEndpoint(ctx, endX, endY, 5, 1.5, true);
+  });
+}
+
+/**
+ * Start (white) or end (black) marker, with an optional label to its right
+ */
+function drawEndpoint(ctx: PdfContext, x: number, y: number, radius: number, lineWidth: number, filled: boolean, label?: string): void {
+  const { doc } = ctx;
+  doc.circle(x, y, radius).lineWidth(lineWidth).fillAndStroke(filled ? '#000' : '#fff', filled ? '#fff' : '#000');
+  if (label) {
+    applyStyle(ctx, { font: 'bold', size: 9 });
+    doc.text(cleanText(ctx, label), x + radius + 3, y - 4.5, { lineBreak: false });
+  }
+}
+
+/**
+ * Draw a Lucide icon (24x24 SVG markup) at the given size
+ * Handles the <path>, <circle> and <line> elements the icons use
+ */
+function drawIcon(doc: PDFDoc, markup: string, x: number, y: number, size: number, color = '#000'): void {
+  const root = parseAttributes(markup.match(/^<svg([^>]*)>/)?.[1] || '');
+  const rootFilled = root['fill'] !== undefined && root['fill'] !== 'none';
+  const strokeWidth = Number(root['stroke-width'] || 2.5);
+
+  doc.save();
+  doc.translate(x, y).scale(size / 24);
+  doc.lineWidth(strokeWidth).lineCap('round').lineJoin('round');
+
+  for (const [, element, attributeText] of markup.matchAll(/<(path|circle|line)\b([^>]*?)\/?>/g)) {
+    const a = parseAttributes(attributeText);
+    if (element === 'path') {
+      doc.path(a['d']);
+    } else if (element === 'circle') {
+      doc.circle(Number(a['cx']), Number(a['cy']), Number(a['r']));
+    } else {
+      doc.moveTo(Number(a['x1']), Number(a['y1'])).lineTo(Number(a['x2']), Number(a['y2']));
+    }
+
+    const filled = a['fill'] !== undefined ? a['fill'] !== 'none' : rootFilled;
+    if (filled) doc.fillAndStroke(color, color);
+    else doc.stroke(color);
+  }
+
+  doc.restore();
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of text.matchAll(/([\w-]+)="([^"]*)"/g)) {
+    attributes[name] = value;
+  }
+  return attributes;
+}
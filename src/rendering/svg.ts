@@ -3,22 +3,29 @@
  * Maintains proper geographic aspect ratio (north up, no stretching)
  */
 
-import { RouteSegment, Bounds, MapDimensions } from '../types';
-import { MAP_CONFIG } from '../config';
+import { RouteSegment, RouteStep, Bounds, MapDimensions, AlternativeRoute, AvoidArea, ElevationProfile, UnitSystem } from '../types';
+import { ELEVATION_CONFIG, MAP_CONFIG } from '../config';
 import { calculateBounds, sampleCoordinates } from '../utils/geo';
+import { escapeXml, formatElevation } from '../utils/format';
 import { POI } from '../api/overpass';
+import { buildTileUrl, fetchTileDataUri } from '../api/tiles';
+import { POI_ICONS } from './icons';
+import { isHighwayStep } from '../processing/steps';
+import { isAreaInBox } from '../processing/avoid';
 
 /**
  * Adjust bounds to maintain proper aspect ratio for the viewport
  * This prevents map stretching and keeps north up
+ * A single point (e.g. a segment holding only the arrival) is shown with
+ * MAP_CONFIG.minSpanDegrees around it
  */
-function adjustBoundsForAspectRatio(
+export function adjustBoundsForAspectRatio(
   bounds: Bounds,
   viewportWidth: number,
   viewportHeight: number
 ): Bounds {
-  const latRange = bounds.maxLat - bounds.minLat;
-  const lonRange = bounds.maxLon - bounds.minLon;
+  const latRange = Math.max(bounds.maxLat - bounds.minLat, MAP_CONFIG.minSpanDegrees);
+  const lonRange = Math.max(bounds.maxLon - bounds.minLon, MAP_CONFIG.minSpanDegrees);
 
   const centerLat = (bounds.minLat + bounds.maxLat) / 2;
   const centerLon = (bounds.minLon + bounds.maxLon) / 2;
@@ -51,11 +58,16 @@ function adjustBoundsForAspectRatio(
 
 /**
  * Generate SVG map for a route segment - clean, minimal
+ * Steps on highways are drawn with a hollow dashed line over the route,
+ * avoid areas as hatched polygons under it
  */
 export async function generateSegmentMapSvg(
   segment: RouteSegment,
   dimensions: MapDimensions = MAP_CONFIG.segment,
-  pois: POI[] = []
+  pois: POI[] = [],
+  idPrefix = '',
+  steps: RouteStep[] = [],
+  avoidAreas: AvoidArea[] = []
 ): Promise<string> {
   const { width, height } = dimensions;
   const { coordinates, startCoord, endCoord } = segment;
@@ -71,40 +83,68 @@ export async function generateSegmentMapSvg(
   const endX = toSvgX(endCoord[0], bounds, width);
   const endY = toSvgY(endCoord[1], bounds, height);
 
-  const tileImages = generateTileImages(bounds, width, height);
+  const tileImages = await generateTileImages(bounds, width, height);
+  const avoid = generateAvoidAreaOverlays(avoidAreas, bounds, width, height, `${idPrefix}mapHatch-${segment.index}`, 3, 0.5);
+  const highwayPaths = getHighwayPaths(steps)
+    .map(path => generateSvgPath(sampleCoordinates(path, MAP_CONFIG.maxSegmentPoints), bounds, width, height))
+    .map(d => `<path d="${d}" fill="none" stroke="#000" stroke-width="5" stroke-linecap="butt" stroke-linejoin="round" vector-effect="non-scaling-stroke"/>
+        <path d="${d}" fill="none" stroke="#fff" stroke-width="2" stroke-dasharray="3 2" stroke-linejoin="round" vector-effect="non-scaling-stroke"/>`)
+    .join('\n        ');
   const poiMarkers = generatePOIMarkers(pois, bounds, width, height, segment.index, sampledCoords, startX, startY, endX, endY);
 
   return `<svg viewBox="0 0 ${width} ${height}" preserveAspectRatio="xMidYMid slice" class="segment-map-svg">
       <defs>
-        <clipPath id="mapClip-${segment.index}">
+        <clipPath id="${idPrefix}mapClip-${segment.index}">
           <rect width="${width}" height="${height}"/>
-        </clipPath>
+        </clipPath>${avoid.defs}
       </defs>
       <rect width="${width}" height="${height}" fill="#e8e8e8" stroke="#999"/>
-      <g clip-path="url(#mapClip-${segment.index})">${tileImages}</g>
+      <g clip-path="url(#${idPrefix}mapClip-${segment.index})">${tileImages}${avoid.paths}</g>
       <path d="${pathD}" fill="none" stroke="white" stroke-width="5" stroke-linecap="round" stroke-linejoin="round" vector-effect="non-scaling-stroke"/>
       <path d="${pathD}" fill="none" stroke="#000" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round" vector-effect="non-scaling-stroke"/>
+      <g clip-path="url(#${idPrefix}mapClip-${segment.index})">${highwayPaths}</g>
       ${poiMarkers}
       <circle cx="${startX}" cy="${startY}" r="5" fill="#fff" stroke="#000" stroke-width="1.5"/>
       <circle cx="${endX}" cy="${endY}" r="5" fill="#000" stroke="#fff" stroke-width="1.5"/>
     </svg>`;
 }
 
-// Lucide POI icons (24x24 viewBox) - actual Lucide paths
-const POI_ICONS: Record<string, string> = {
-  // Lucide 'cross' - medical cross
-  'hospital': `<path d="M11 2a2 2 0 0 0-2 2v5H4a2 2 0 0 0-2 2v2c0 1.1.9 2 2 2h5v5c0 1.1.9 2 2 2h2a2 2 0 0 0 2-2v-5h5a2 2 0 0 0 2-2v-2a2 2 0 0 0-2-2h-5V4a2 2 0 0 0-2-2h-2z"/>`,
-  // Lucide 'flame'
-  'fire-station': `<path d="M8.5 14.5A2.5 2.5 0 0 0 11 12c0-1.38-.5-2-1-3-1.072-2.143-.224-4.054 2-6 .5 2.5 2 4.9 4 6.5 2 1.6 3 3.5 3 5.5a7 7 0 1 1-14 0c0-1.153.433-2.294 1-3a2.5 2.5 0 0 0 2.5 2.5z"/>`,
-  // Lucide 'shield'
-  'police': `<path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10"/>`,
-  // Lucide 'church'
-  'church': `<path d="m18 7 4 2v11a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V9l4-2"/><path d="M14 22v-4a2 2 0 0 0-2-2v0a2 2 0 0 0-2 2v4"/><path d="M18 22V5l-6-3-6 3v17"/><path d="M12 7v5"/><path d="M10 9h4"/>`,
-  // Lucide 'fuel'
-  'gas': `<line x1="3" x2="15" y1="22" y2="22"/><line x1="4" x2="14" y1="9" y2="9"/><path d="M14 22V4a2 2 0 0 0-2-2H6a2 2 0 0 0-2 2v18"/><path d="M14 13h2a2 2 0 0 1 2 2v2a2 2 0 0 0 2 2h0a2 2 0 0 0 2-2V9.83a2 2 0 0 0-.59-1.42L18 5"/>`,
-  // Lucide 'graduation-cap'
-  'school': `<path d="M22 10v6M2 10l10-5 10 5-10 5z"/><path d="M6 12v5c3 3 9 3 12 0v-5"/>`,
-};
+/**
+ * Avoid areas on the map as hatched polygons, with the hatch pattern for <defs>
+ * Spacing and line width are in the map's own units
+ */
+function generateAvoidAreaOverlays(
+  areas: AvoidArea[],
+  bounds: Bounds,
+  width: number,
+  height: number,
+  patternId: string,
+  spacing: number,
+  lineWidth: number
+): { defs: string; paths: string } {
+  const visible = areas.filter(area => isAreaInBox(area, bounds));
+  if (visible.length === 0) return { defs: '', paths: '' };
+
+  const defs = `
+        <pattern id="${patternId}" patternUnits="userSpaceOnUse" width="${spacing}" height="${spacing}" patternTransform="rotate(45)">
+          <line x1="0" y1="0" x2="0" y2="${spacing}" stroke="#000" stroke-width="${lineWidth}"/>
+        </pattern>`;
+  const paths = visible.map(area => {
+    const d = area.rings.map(ring => `${generateSvgPath(ring, bounds, width, height)} Z`).join(' ');
+    return `
+      <path d="${d}" fill="url(#${patternId})" fill-rule="evenodd" stroke="#000" stroke-width="${lineWidth}"/>`;
+  }).join('');
+  return { defs, paths };
+}
+
+/**
+ * Paths of the steps that follow highways, for highlighting on a map
+ */
+export function getHighwayPaths(steps: RouteStep[]): Array<Array<[number, number]>> {
+  return steps
+    .filter(step => isHighwayStep(step) && step.geometry && step.geometry.length >= 2)
+    .map(step => step.geometry!);
+}
 
 /**
  * Calculate minimum distance from a point to any point on the route (in degrees, approximate)
@@ -170,7 +210,54 @@ function generatePOIMarkers(
   endX?: number,
   endY?: number
 ): string {
-  if (pois.length === 0) return '';
+  const layouts = layoutPOIMarkers(pois, bounds, width, height, routeCoords, startX, startY, endX, endY);
+
+  return layouts.map(({ poi, name, dotX, dotY, labelX, labelY }) => {
+    const iconPath = POI_ICONS[poi.iconType] || POI_ICONS['hospital'];
+
+    // Render Lucide icon at fixed size (6x6) - scale path from 24x24 viewBox
+    const iconSize = 6;
+    const pathScale = iconSize / 24;
+
+    return `<g class="poi">
+        <circle cx="${dotX}" cy="${dotY}" r="1.5" fill="#000"/>
+        <line x1="${dotX}" y1="${dotY}" x2="${labelX}" y2="${labelY}" stroke="#000" stroke-width="0.3"/>
+        <rect x="${labelX - 4}" y="${labelY - 4}" width="8" height="8" fill="#fff" stroke="#000" stroke-width="0.4" rx="1"/>
+        <g transform="translate(${labelX - iconSize / 2}, ${labelY - iconSize / 2}) scale(${pathScale})">
+          <g fill="none" stroke="#000" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round">${iconPath}</g>
+        </g>
+        <text x="${labelX}" y="${labelY + 8}" font-size="2.5" fill="#000" font-family="sans-serif" text-anchor="middle">${escapeXml(name)}</text>
+      </g>`;
+  }).join('\n      ');
+}
+
+// A POI dot on the map and where its icon label goes
+export interface POIMarkerLayout {
+  poi: POI;
+  /** Display name, truncated to fit under the icon */
+  name: string;
+  dotX: number;
+  dotY: number;
+  labelX: number;
+  labelY: number;
+}
+
+/**
+ * Place up to three POI labels near the route, clear of the route line,
+ * the start/end markers and each other
+ */
+export function layoutPOIMarkers(
+  pois: POI[],
+  bounds: Bounds,
+  width: number,
+  height: number,
+  routeCoords: Array<[number, number]>,
+  startX?: number,
+  startY?: number,
+  endX?: number,
+  endY?: number
+): POIMarkerLayout[] {
+  if (pois.length === 0) return [];
 
   // Filter POIs to those close to the route (within ~0.005 degrees ≈ 500m)
   const MAX_DISTANCE = 0.005;
@@ -178,7 +265,7 @@ function generatePOIMarkers(
     minDistanceToRoute(poi.lon, poi.lat, routeCoords) < MAX_DISTANCE
   );
 
-  const markers: string[] = [];
+  const markers: POIMarkerLayout[] = [];
   const usedLabelPositions: Array<{ x: number; y: number }> = [];
   const MAX_DISPLAYED = 3;
   const OFFSET = 14;
@@ -273,38 +360,10 @@ function generatePOIMarkers(
 
     // Truncate long names - show more characters
     const name = poi.name.length > 18 ? poi.name.substring(0, 16) + '…' : poi.name;
-    const iconPath = POI_ICONS[poi.iconType] || POI_ICONS['hospital'];
-
-    // Render Lucide icon at fixed size (6x6) - scale path from 24x24 viewBox
-    const iconSize = 6;
-    const pathScale = iconSize / 24;
-    const iconCenterX = labelX;
-    const iconCenterY = labelY;
-
-    markers.push(`<g class="poi">
-        <circle cx="${dotX}" cy="${dotY}" r="1.5" fill="#000"/>
-        <line x1="${dotX}" y1="${dotY}" x2="${labelX}" y2="${labelY}" stroke="#000" stroke-width="0.3"/>
-        <rect x="${labelX - 4}" y="${labelY - 4}" width="8" height="8" fill="#fff" stroke="#000" stroke-width="0.4" rx="1"/>
-        <g transform="translate(${iconCenterX - iconSize / 2}, ${iconCenterY - iconSize / 2}) scale(${pathScale})">
-          <g fill="none" stroke="#000" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round">${iconPath}</g>
-        </g>
-        <text x="${labelX}" y="${labelY + 8}" font-size="2.5" fill="#000" font-family="sans-serif" text-anchor="middle">${escapeXml(name)}</text>
-      </g>`);
+    markers.push({ poi, name, dotX, dotY, labelX, labelY });
   }
 
-  return markers.join('\n      ');
-}
-
-/**
- * Escape XML special characters
- */
-function escapeXml(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
+  return markers;
 }
 
 /**
@@ -312,11 +371,16 @@ function escapeXml(str: string): string {
  */
 export async function generateOverviewMapSvg(
   coordinates: Array<[number, number]>,
-  dimensions: MapDimensions = MAP_CONFIG.overview
+  dimensions: MapDimensions = MAP_CONFIG.overview,
+  alternatives: AlternativeRoute[] = [],
+  idPrefix = '',
+  markerLabels = { start: 'START', end: 'END' },
+  avoidAreas: AvoidArea[] = []
 ): Promise<string> {
   const { width, height } = dimensions;
 
-  const rawBounds = calculateBounds(coordinates);
+  // Fit the primary route and every alternative
+  const rawBounds = calculateBounds([...coordinates, ...alternatives.flatMap(alt => alt.route.coordinates)]);
   const bounds = adjustBoundsForAspectRatio(rawBounds, width, height);
 
   const sampledCoords = sampleCoordinates(coordinates, MAP_CONFIG.maxOverviewPoints);
@@ -328,26 +392,69 @@ export async function generateOverviewMapSvg(
   const endX = toSvgX(endCoord[0], bounds, width);
   const endY = toSvgY(endCoord[1], bounds, height);
 
-  const tileImages = generateTileImages(bounds, width, height, MAP_CONFIG.overviewTileServerUrl, 11);
+  const tileImages = await generateTileImages(bounds, width, height, MAP_CONFIG.overviewTileServerUrl, 11);
+  const alternativePaths = generateAlternativePaths(alternatives, bounds, width, height);
+  const avoid = generateAvoidAreaOverlays(avoidAreas, bounds, width, height, `${idPrefix}overviewHatch`, 5, 1);
 
   return `<svg viewBox="0 0 ${width} ${height}" class="overview-map-svg">
       <defs>
-        <clipPath id="overviewClip">
+        <clipPath id="${idPrefix}overviewClip">
           <rect width="${width}" height="${height}"/>
-        </clipPath>
+        </clipPath>${avoid.defs}
       </defs>
       <rect width="${width}" height="${height}" fill="#e8e8e8" stroke="#999"/>
-      <g clip-path="url(#overviewClip)">${tileImages}
+      <g clip-path="url(#${idPrefix}overviewClip)">${tileImages}${avoid.paths}${alternativePaths}
       <path d="${pathD}" fill="none" stroke="white" stroke-width="4" stroke-linecap="round" stroke-linejoin="round"/>
       <path d="${pathD}" fill="none" stroke="#000" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
       <circle cx="${startX}" cy="${startY}" r="7" fill="#fff" stroke="#000" stroke-width="2"/>
-      <text x="${startX + 10}" y="${startY + 4}" font-size="9" font-weight="bold" fill="#000">START</text>
+      <text x="${startX + 10}" y="${startY + 4}" font-size="9" font-weight="bold" fill="#000">${escapeXml(markerLabels.start)}</text>
       <circle cx="${endX}" cy="${endY}" r="7" fill="#000" stroke="#fff" stroke-width="2"/>
-      <text x="${endX + 10}" y="${endY + 4}" font-size="9" font-weight="bold" fill="#000">END</text>
+      <text x="${endX + 10}" y="${endY + 4}" font-size="9" font-weight="bold" fill="#000">${escapeXml(markerLabels.end)}</text>
       </g>
     </svg>`;
 }
 
+/**
+ * Draw alternative routes as dashed lines, labelled B, C, ... at the middle
+ * of their longest stretch away from the primary route
+ */
+function generateAlternativePaths(
+  alternatives: AlternativeRoute[],
+  bounds: Bounds,
+  width: number,
+  height: number
+): string {
+  return alternatives.map(alt => {
+    const sampledCoords = sampleCoordinates(alt.route.coordinates, MAP_CONFIG.maxOverviewPoints);
+    const pathD = generateSvgPath(sampledCoords, bounds, width, height);
+    const letter = alt.label.replace('Plan ', '');
+    const labelCoord = getAlternativeLabelCoord(alt, sampledCoords);
+    const labelX = toSvgX(labelCoord[0], bounds, width);
+    const labelY = toSvgY(labelCoord[1], bounds, height);
+
+    return `
+      <path d="${pathD}" fill="none" stroke="white" stroke-width="3.5" stroke-linecap="round" stroke-linejoin="round"/>
+      <path d="${pathD}" fill="none" stroke="#555" stroke-width="1.5" stroke-dasharray="5,3" stroke-linecap="round" stroke-linejoin="round"/>
+      <circle cx="${labelX}" cy="${labelY}" r="6" fill="#fff" stroke="#555" stroke-width="1"/>
+      <text x="${labelX}" y="${labelY + 3}" font-size="8" font-weight="bold" fill="#000" text-anchor="middle">${escapeXml(letter)}</text>`;
+  }).join('');
+}
+
+/**
+ * Where to label an alternative: the middle of its longest detour
+ */
+export function getAlternativeLabelCoord(alt: AlternativeRoute, sampledCoords: Array<[number, number]>): [number, number] {
+  // Midpoint between divergence and rejoin of the longest detour
+  const longest = [...alt.divergences].sort((a, b) => b.distance - a.distance)[0];
+  if (!longest) return sampledCoords[Math.floor(sampledCoords.length / 2)];
+
+  const from = longest.divergeCoord;
+  const to = longest.rejoinCoord || sampledCoords[sampledCoords.length - 1];
+  const mid: [number, number] = [(from[0] + to[0]) / 2, (from[1] + to[1]) / 2];
+  return sampledCoords.reduce((best, c) =>
+    Math.hypot(c[0] - mid[0], c[1] - mid[1]) < Math.hypot(best[0] - mid[0], best[1] - mid[1]) ? c : best
+  );
+}
 
 function generateSvgPath(coordinates: Array<[number, number]>, bounds: Bounds, width: number, height: number): string {
   return coordinates
@@ -359,31 +466,67 @@ function generateSvgPath(coordinates: Array<[number, number]>, bounds: Bounds, w
     .join(' ');
 }
 
-function toSvgX(lon: number, bounds: Bounds, width: number): number {
+export function toSvgX(lon: number, bounds: Bounds, width: number): number {
   const lonRange = bounds.maxLon - bounds.minLon;
   return ((lon - bounds.minLon) / lonRange) * width;
 }
 
-function toSvgY(lat: number, bounds: Bounds, height: number): number {
+export function toSvgY(lat: number, bounds: Bounds, height: number): number {
   const latRange = bounds.maxLat - bounds.minLat;
   return height - ((lat - bounds.minLat) / latRange) * height;
 }
 
 /**
- * Generate tile image elements for the map background (using direct URLs, no downloading)
+ * Generate tile image elements for the map background
+ * Tiles are downloaded (or read from the tile cache) and embedded as data URIs
  */
-function generateTileImages(bounds: Bounds, width: number, height: number, tileServerUrl?: string, maxZoom = 16): string {
-  const zoom = Math.min(calculateZoomLevel(bounds, width, height), maxZoom);
-  const tiles = getTilesForBounds(bounds, zoom);
+async function generateTileImages(
+  bounds: Bounds,
+  width: number,
+  height: number,
+  tileServerUrl?: string,
+  maxZoom = 16
+): Promise<string> {
   const serverUrl = tileServerUrl || MAP_CONFIG.tileServerUrl;
+  const tiles = await loadMapTiles(bounds, width, height, serverUrl, maxZoom);
+
+  const images = tiles.map((tile) => {
+    // Fall back to the remote URL if the tile can't be fetched
+    const href = tile.dataUri || buildTileUrl(serverUrl, tile.zoom, tile.x, tile.y);
+    return `<image href="${href}" x="${tile.left}" y="${tile.top}" width="${tile.width}" height="${tile.height}" preserveAspectRatio="none"/>`;
+  });
+
+  return images.join('');
+}
+
+// A map tile and its position in viewport coordinates
+export interface MapTile {
+  x: number;
+  y: number;
+  zoom: number;
+  /** Tile image as a data URI, or null if it could not be fetched */
+  dataUri: string | null;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
 
-  // Build tile info with positions
-  const tileInfos = tiles.map(tile => {
-    const tileUrl = serverUrl
-      .replace('{z}', zoom.toString())
-      .replace('{x}', tile.x.toString())
-      .replace('{y}', tile.y.toString());
+/**
+ * Fetch the tiles covering the bounds and position them in the viewport
+ */
+export async function loadMapTiles(
+  bounds: Bounds,
+  width: number,
+  height: number,
+  tileServerUrl: string = MAP_CONFIG.tileServerUrl,
+  maxZoom = 16
+): Promise<MapTile[]> {
+  const zoom = Math.min(calculateZoomLevel(bounds, width, height), maxZoom);
+  const tiles = getTilesForBounds(bounds, zoom);
 
+  return Promise.all(tiles.map(async tile => {
+    const dataUri = await fetchTileDataUri(tileServerUrl, zoom, tile.x, tile.y);
     const tileBounds = getTileBounds(tile.x, tile.y, zoom);
 
     const tileLeft = toSvgX(tileBounds.minLon, bounds, width);
@@ -392,20 +535,16 @@ function generateTileImages(bounds: Bounds, width: number, height: number, tileS
     const tileBottom = toSvgY(tileBounds.minLat, bounds, height);
 
     return {
-      url: tileUrl,
+      x: tile.x,
+      y: tile.y,
+      zoom,
+      dataUri,
       left: tileLeft,
       top: tileTop,
       width: tileRight - tileLeft,
       height: tileBottom - tileTop,
     };
-  });
-
-  // Generate image elements with direct URLs (no downloading/embedding)
-  const images = tileInfos.map((info) =>
-    `<image href="${info.url}" x="${info.left}" y="${info.top}" width="${info.width}" height="${info.height}" preserveAspectRatio="none"/>`
-  );
-
-  return images.join('');
+  }));
 }
 
 /**
@@ -471,3 +610,52 @@ function getTileBounds(x: number, y: number, zoom: number): { minLat: number; ma
 
   return { minLat, maxLat, minLon, maxLon };
 }
+
+/**
+ * Elevation profile of a segment: shaded height against distance, with the
+ * lowest and highest points labelled on the right
+ */
+export function generateElevationProfileSvg(
+  profile: ElevationProfile,
+  units: UnitSystem,
+  dimensions: MapDimensions = MAP_CONFIG.profile
+): string {
+  const { width, height } = dimensions;
+  const plotWidth = width - MAP_CONFIG.profileLabelWidth;
+  const scale = getProfileScale(profile, plotWidth, height);
+  const line = profile.distances
+    .map((d, i) => `${i === 0 ? 'M' : 'L'}${scale.x(d).toFixed(1)},${scale.y(profile.elevations[i]).toFixed(1)}`)
+    .join(' ');
+
+  return `<svg viewBox="0 0 ${width} ${height}" class="elevation-profile-svg">
+      <path d="${line} L${plotWidth},${height} L0,${height} Z" fill="#ddd"/>
+      <path d="${line}" fill="none" stroke="#000" stroke-width="1" stroke-linejoin="round"/>
+      <line x1="${plotWidth}" y1="0" x2="${plotWidth}" y2="${height}" stroke="#999" stroke-width="0.5"/>
+      <text x="${plotWidth + 3}" y="8" font-size="6" font-weight="bold">${formatElevation(scale.max, units)}</text>
+      <text x="${plotWidth + 3}" y="${height - 3}" font-size="6">${formatElevation(scale.min, units)}</text>
+    </svg>`;
+}
+
+/**
+ * Positions for an elevation profile plot: distance across, height up
+ * Flat segments keep a minimum height range so they look flat
+ */
+export function getProfileScale(
+  profile: ElevationProfile,
+  width: number,
+  height: number
+): { min: number; max: number; x: (distance: number) => number; y: (elevation: number) => number } {
+  const min = Math.min(...profile.elevations);
+  const max = Math.max(...profile.elevations);
+  const range = Math.max(max - min, ELEVATION_CONFIG.profileMinRangeMeters);
+  const length = profile.distances[profile.distances.length - 1] || 1;
+  // Leave a little room above the highest point
+  const top = 3;
+
+  return {
+    min,
+    max,
+    x: distance => (distance / length) * width,
+    y: elevation => height - ((elevation - min) / range) * (height - top),
+  };
+}
@@ -13,6 +13,26 @@ export interface Location extends Coordinate {
   address: string;
 }
 
+// A location as configured: coordinates, an address to geocode, or both
+export interface LocationInput extends Partial<Coordinate> {
+  name: string;
+  address: string;
+}
+
+// Route endpoints and intermediate stops
+export interface RouteConfig {
+  start: Location;
+  end: Location;
+  via: Location[]; // Visited in order (pharmacy, relative's house, rally point...)
+}
+
+// Route endpoints before geocoding
+export interface RouteConfigInput {
+  start: LocationInput;
+  end: LocationInput;
+  via: LocationInput[];
+}
+
 export interface Bounds {
   minLat: number;
   maxLat: number;
@@ -22,6 +42,32 @@ export interface Bounds {
   centerLon: number;
 }
 
+// Routing provider configuration
+export type RoutingProviderType = 'osrm' | 'valhalla' | 'graphhopper';
+
+export interface RoutingProviderConfig {
+  type: RoutingProviderType;
+  baseUrl: string;
+  apiKey?: string;
+}
+
+// HTTP layer: live network, live with every exchange saved to fixtures, or fixtures only
+export type HttpMode = 'live' | 'record' | 'replay';
+
+// One recorded request/response, stored as JSON in the fixture directory
+export interface HttpFixture {
+  method: string;
+  url: string;
+  requestBody?: string;
+  status: number;
+  contentType: string;
+  /** Response body as text, or base64 for binary responses */
+  body: string;
+  encoding: 'utf8' | 'base64';
+  /** Retry-After header, if the server sent one */
+  retryAfter?: string;
+}
+
 // OSRM API types
 export interface OSRMManeuver {
   type: string;
@@ -59,6 +105,60 @@ export interface OSRMResponse {
   routes: OSRMRoute[];
 }
 
+// Valhalla API types
+export interface ValhallaManeuver {
+  type: number;
+  instruction: string;
+  street_names?: string[];
+  length: number; // kilometers
+  time: number; // seconds
+  begin_shape_index: number;
+  end_shape_index: number;
+  roundabout_exit_count?: number;
+}
+
+export interface ValhallaLeg {
+  shape: string; // Encoded polyline, precision 6
+  maneuvers: ValhallaManeuver[];
+  summary: { length: number; time: number };
+}
+
+export interface ValhallaTrip {
+  status: number;
+  status_message: string;
+  legs: ValhallaLeg[];
+  summary: { length: number; time: number };
+}
+
+export interface ValhallaResponse {
+  trip: ValhallaTrip;
+  alternates?: Array<{ trip: ValhallaTrip }>;
+}
+
+// GraphHopper API types
+export interface GraphHopperInstruction {
+  text: string;
+  street_name?: string;
+  street_ref?: string;
+  distance: number; // meters
+  time: number; // milliseconds
+  sign: number;
+  interval: [number, number]; // Indices into path points
+}
+
+export interface GraphHopperPath {
+  distance: number;
+  time: number;
+  points: {
+    coordinates: Array<[number, number]>; // [lon, lat][] (points_encoded=false)
+  };
+  instructions: GraphHopperInstruction[];
+}
+
+export interface GraphHopperResponse {
+  paths: GraphHopperPath[];
+}
+
 // Nominatim API types
 export interface NominatimAddress {
   road?: string;
@@ -74,9 +174,25 @@ export interface NominatimAddress {
 }
 
 export interface NominatimResponse {
+  display_name?: string;
   address?: NominatimAddress;
 }
 
+// One result from a Nominatim address search (coordinates come back as strings)
+export interface NominatimSearchResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+  class?: string;
+  type?: string;
+  importance?: number;
+  address?: NominatimAddress;
+}
+
+export interface GeocodeMatch extends Coordinate {
+  displayName: string;
+}
+
 // Processed route types
 export interface RouteStep {
   instruction: string;
@@ -87,6 +203,66 @@ export interface RouteStep {
   duration: number;
   location: [number, number];
   geometry?: Array<[number, number]>; // Step path coordinates [lon, lat][]
+  climb?: StepClimb; // Steepest climb on this step, if it is one of the route's steep ones
+}
+
+// A steep uphill stretch within a step
+export interface StepClimb {
+  ascent: number; // Meters gained
+  grade: number; // Average gradient in percent
+}
+
+export interface RouteLeg {
+  distance: number;
+  duration: number;
+  steps: RouteStep[];
+}
+
+/**
+ * Provider-independent route, as returned by every RoutingProvider
+ */
+export interface Route {
+  distance: number;
+  duration: number;
+  coordinates: Array<[number, number]>; // [lon, lat][]
+  legs: RouteLeg[];
+  provider: string; // Name of the provider that produced this route
+}
+
+// Where an alternative route leaves the primary route and where it comes back
+export interface RouteDivergence {
+  divergeCoord: [number, number];
+  rejoinCoord: [number, number] | null; // null if it never rejoins before the end
+  divergeAlongPrimary: number; // Meters from start along the primary route
+  rejoinAlongPrimary: number | null;
+  divergeName: string; // Road the alternative takes when leaving the primary
+  rejoinName: string; // Road where it rejoins the primary
+  distance: number; // Length of the off-primary stretch (meters)
+}
+
+export interface AlternativeRoute {
+  label: string; // "Plan B", "Plan C", ...
+  route: Route;
+  steps: RouteStep[]; // Only the steps that are off the primary route
+  divergences: RouteDivergence[];
+}
+
+// Segmentation
+export type SegmentationStrategy = 'steps' | 'distance' | 'time' | 'hybrid';
+
+// How distances are printed: miles/feet, kilometers/meters, or both side by side
+export type UnitSystem = 'imperial' | 'metric' | 'both';
+
+// Languages with a message catalog in src/i18n
+export type Locale = 'en' | 'es' | 'fr' | 'zh';
+
+export interface SegmentationOptions {
+  strategy: SegmentationStrategy;
+  stepsPerSegment: number; // steps and hybrid
+  targetMeters: number; // distance
+  targetMinutes: number; // time
+  minMeters: number; // hybrid
+  maxMeters: number; // hybrid
 }
 
 export interface Waypoint {
@@ -105,6 +281,14 @@ export interface RouteSegment {
   waypoints?: Waypoint[];
   stepRange?: [number, number]; // [startStepIdx, endStepIdx] - for backwards compatibility
   stepIndices?: number[]; // Actual step indices that belong to this segment
+  legIndex?: number; // Route leg this segment belongs to (0-based)
+}
+
+// A polygon the route must stay out of: flood zone, wildfire perimeter, evacuation zone, closed bridge...
+export interface AvoidArea {
+  name: string;
+  /** Outer ring, then any holes, as [lon, lat] */
+  rings: Array<Array<[number, number]>>;
 }
 
 export interface SegmentLocation {
@@ -112,6 +296,137 @@ export interface SegmentLocation {
   endName: string;
   startAddr?: NominatimAddress;
   endAddr?: NominatimAddress;
+  /** A place name lookup failed, so a name shows as "Unknown" */
+  lookupFailed?: boolean;
+}
+
+// Elevation sampled along a segment from local DEM tiles
+export interface ElevationProfile {
+  distances: number[]; // Meters along the segment at each sample
+  elevations: number[]; // Meters above sea level at each sample
+  ascent: number; // Total climb (meters)
+  descent: number;
+}
+
+// Lookups for a segment that failed even after retries - shown as a "data incomplete" notice
+export interface SegmentDataGaps {
+  placeNames: boolean;
+  pois: boolean;
+}
+
+// Point of interest from Overpass
+export interface POI {
+  /** OSM element, e.g. "node/123" or "way/456" */
+  id: string;
+  lat: number;
+  lon: number;
+  name: string;
+  type: string;
+  iconType: string;
+  priority: number;
+  unnamed?: boolean; // Not named in OpenStreetMap - name is the English category label
+}
+
+// A kind of point of interest to fetch from OpenStreetMap
+export interface POICategory {
+  id: string;
+  /** OSM tags that put a feature in this category, e.g. "amenity=hospital" */
+  tags: string[];
+  label: string;
+  iconType: string;
+  priority: number; // Lower number = more important
+  /** Keep features without a name (taps, AEDs), labelled with the category */
+  nameOptional?: boolean;
+}
+
+// How fast a party walks and how often it rests
+export interface PaceProfile {
+  id: string;
+  label: string;
+  speedMps: number; // Walking speed on the flat (meters per second)
+  restEveryMinutes: number; // Walking time between rest breaks
+  restMinutes: number; // Length of each rest break
+  hoursPerDay: number; // Hours on the move per day, breaks included
+}
+
+// One day of walking in a multi-day plan
+export interface DayStage {
+  day: number;
+  startAlong: number; // Meters from route start
+  endAlong: number;
+  distance: number;
+  duration: number;
+  overnight: POI | null; // Shelter near the end of the day (null on the final day, or if none was found)
+  overnightOffRoute?: number; // Meters from the route to the shelter
+  endCoord: [number, number];
+  firstSegmentIndex: number; // Segment the day starts in - several days can start in one long segment
+  lastSegmentIndex: number; // Segment the day ends in
+  morningSteps: RouteStep[]; // First instructions for the next morning
+}
+
+/**
+ * Everything needed to render a directions document, in any output format
+ */
+export interface DirectionsPlan {
+  config: RouteConfig;
+  route: Route;
+  steps: RouteStep[];
+  segments: RouteSegment[];
+  segmentLocations: SegmentLocation[];
+  segmentSteps: RouteStep[][];
+  segmentPOIs: POI[][];
+  segmentDataGaps: SegmentDataGaps[];
+  segmentElevations: Array<ElevationProfile | null>; // null without DEM coverage
+  /** Areas the route was planned around, drawn hatched on the maps */
+  avoidAreas: AvoidArea[];
+  /** Names of avoided areas the route still crosses - no way around was found */
+  crossedAreas: string[];
+  alternatives: AlternativeRoute[];
+  stages: DayStage[]; // Empty if the route fits in one day
+  /** Pace all durations and day counts are based on */
+  paceProfile: PaceProfile;
+  units: UnitSystem;
+  lang: Locale;
+  secondaryLang?: Locale; // Shown alongside lang in bilingual documents
+  returnTrip?: DirectionsPlan; // Separately routed end → start plan
+}
+
+// Batch manifest types
+export interface RouteSettings {
+  stepsPerSegment?: number;
+  segmentStrategy?: SegmentationStrategy;
+  units?: UnitSystem;
+  lang?: string; // Language code, or "primary,secondary" for bilingual output
+  alternatives?: number; // Number of backup routes
+  returnTrip?: boolean; // Also route end → start
+  format?: string; // Output format, e.g. "html"
+  poiCategories?: string; // POI category ids, most important first
+  avoidAreas?: string; // GeoJSON files of areas to route around, comma-separated
+  pace?: string; // Pace profile id
+}
+
+export interface BatchRoute extends RouteSettings {
+  id: string; // Used as the output filename
+  title?: string;
+  from: LocationInput;
+  to: LocationInput;
+  via?: LocationInput[];
+}
+
+export interface BatchManifest {
+  defaults: RouteSettings;
+  routes: BatchRoute[];
+}
+
+export interface BatchIndexEntry {
+  id: string;
+  title: string;
+  from: string;
+  to: string;
+  file?: string; // Output filename, relative to the index page
+  distance?: number;
+  duration?: number;
+  error?: string; // Set if generation failed
 }
 
 // Rendering types
@@ -122,9 +437,124 @@ export interface ProcessedStep {
   ref?: string; // Route number
   distance: number;
   aggregated?: boolean;
+  /** On an expressway, interstate or similar road closed to pedestrians */
+  highway?: boolean;
+  climb?: StepClimb;
 }
 
 export interface MapDimensions {
   width: number;
   height: number;
 }
+
+// GeoJSON export (RFC 7946) - only the geometry types we write
+export type GeoJSONGeometry =
+  | { type: 'Point'; coordinates: [number, number] }
+  | { type: 'LineString'; coordinates: Array<[number, number]> };
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  geometry: GeoJSONGeometry;
+  properties: Record<string, string | number | boolean | null>;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
+/**
+ * Translated text for one language. Instruction builders take the router's
+ * modifier (left, slight right, uturn, ...) so each language can phrase it
+ * with its own grammar; `dir` is omitted when there's no direction to give.
+ */
+export interface MessageCatalog {
+  /** Language name in that language, e.g. "Español" */
+  languageName: string;
+  instructions: {
+    start: string;
+    arrive: string;
+    continue: string;
+    note: string;
+    turn: (dir: string) => string;
+    bear: (dir: string) => string;
+    merge: (dir?: string) => string;
+    fork: (dir?: string) => string;
+    endOfRoad: (dir?: string) => string;
+    roundabout: (dir?: string) => string;
+    onRamp: (dir?: string) => string;
+    offRamp: (dir?: string) => string;
+    /** Action followed by the road being turned onto */
+    onto: (action: string, road: string) => string;
+    /** Action followed by the road being followed */
+    on: (action: string, road: string) => string;
+    followRoute: string;
+  };
+  document: {
+    title: string;
+    heading: string;
+    from: string;
+    to: string;
+    via: string;
+    returnTotals: string;
+    hoursWalking: (hours: string) => string;
+    planDays: (days: number) => string;
+    duration: (hours: number, minutes: number) => string;
+    paceLabel: (profile: string) => string;
+    warningTitle: string;
+    warning: string;
+    survival: Array<{ title: string; text: string }>;
+    emergency: string;
+    overview: string;
+    returnOverview: string;
+    returnTrip: string;
+    leg: (num: number, total: number) => string;
+    arrive: string;
+    depart: string;
+    continueTo: (name: string) => string;
+    backupRoutes: string;
+    ifBlocked: string;
+    planLabel: (letter: string) => string;
+    leaveAt: (distance: string, road?: string) => string;
+    rejoinAt: (distance: string, road?: string) => string;
+    continueToDestination: string;
+    offMainRoute: (distance: string) => string;
+    day: (num: number, total: number) => string;
+    overnight: string;
+    end: string;
+    arriveAtDestination: string;
+    offRoute: (distance: string) => string;
+    noShelter: (coords: string) => string;
+    nextMorning: string;
+    dataIncomplete: string;
+    placeNamesUnavailable: string;
+    poisUnavailable: string;
+    highwayBadge: string;
+    highwayExposure: (distance: string) => string;
+    highwayTitle: string;
+    highwaySummary: (distance: string, segments: number[]) => string;
+    avoidTitle: string;
+    avoidedAreas: (names: string) => string;
+    areasNotAvoided: (names: string) => string;
+    climbTotals: (ascent: string, descent: string) => string;
+    steepClimbBadge: (ascent: string, grade: number) => string;
+    mapStart: string;
+    mapEnd: string;
+    batchTitle: string;
+    batchHeading: string;
+    batchColumns: [string, string, string];
+    failed: (error: string) => string;
+  };
+  /** Layer/folder names in GIS exports */
+  layers: {
+    stops: string;
+    segments: string;
+    directions: string;
+    pointsOfInterest: string;
+    days: string;
+  };
+  /** POI type labels by icon type */
+  poiTypes: Record<string, string>;
+  /** Pace profile labels by profile id */
+  paceProfiles: Record<string, string>;
+}
@@ -2,42 +2,109 @@
  * Formatting utility functions
  */
 
-import { DISTANCE_THRESHOLDS, ROUTE_CONFIG_PROCESSING } from '../config';
+import { MessageCatalog, PaceProfile, UnitSystem } from '../types';
+import { DISTANCE_THRESHOLDS, OUTPUT_CONFIG, loadPaceProfile } from '../config';
+import { en } from '../i18n/en';
 
 /**
- * Format distance in meters to miles
+ * Format distance in meters for the given unit system
  */
-export function formatDistance(meters: number): string {
+export function formatDistance(meters: number, units: UnitSystem = OUTPUT_CONFIG.units): string {
+  switch (units) {
+    case 'metric':
+      return formatMetric(meters);
+    case 'both':
+      return `${formatImperial(meters)} / ${formatMetric(meters)}`;
+    default:
+      return formatImperial(meters);
+  }
+}
+
+/**
+ * Miles, or feet for short distances
+ */
+function formatImperial(meters: number): string {
+  if (meters < DISTANCE_THRESHOLDS.maxFeetDistance) {
+    return `${roundShortDistance(meters / DISTANCE_THRESHOLDS.metersPerFoot)} ft`;
+  }
   const miles = meters / DISTANCE_THRESHOLDS.metersPerMile;
   return `${miles.toFixed(1)} mi`;
 }
 
 /**
- * Format duration in seconds to human-readable string
+ * Kilometers, or meters for short distances
+ */
+function formatMetric(meters: number): string {
+  const rounded = roundShortDistance(meters);
+  if (rounded < DISTANCE_THRESHOLDS.maxMetersDistance) {
+    return `${rounded} m`;
+  }
+  return `${(meters / 1000).toFixed(1)} km`;
+}
+
+// Nearest 10 above 100 - more precision than that isn't meaningful on foot
+function roundShortDistance(value: number): number {
+  return value >= 100 ? Math.round(value / 10) * 10 : Math.round(value);
+}
+
+/**
+ * Format a height or climb in meters: feet, meters, or both
+ */
+export function formatElevation(meters: number, units: UnitSystem = OUTPUT_CONFIG.units): string {
+  const feet = `${Math.round(meters / DISTANCE_THRESHOLDS.metersPerFoot)} ft`;
+  const metric = `${Math.round(meters)} m`;
+  switch (units) {
+    case 'metric':
+      return metric;
+    case 'both':
+      return `${feet} / ${metric}`;
+    default:
+      return feet;
+  }
+}
+
+/**
+ * Format duration in seconds to human-readable string, in the catalog's language
  */
-export function formatDuration(seconds: number): string {
+export function formatDuration(seconds: number, messages: MessageCatalog = en): string {
   const hours = Math.floor(seconds / 3600);
   const mins = Math.floor((seconds % 3600) / 60);
+  return messages.document.duration(hours, mins);
+}
 
-  if (hours > 0) {
-    return `${hours}h ${mins}m`;
+/**
+ * Format byte count to human-readable string
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
   }
-  return `${mins}m`;
+  return `${bytes} B`;
+}
+
+/**
+ * Calculate walking duration on the flat from distance, rest breaks included
+ */
+export function calculateWalkingDuration(distanceMeters: number, profile: PaceProfile = loadPaceProfile()): number {
+  return addRestBreaks(distanceMeters / profile.speedMps, profile);
 }
 
 /**
- * Calculate walking duration from distance
+ * Time on the move plus the profile's rest breaks, spread evenly
  */
-export function calculateWalkingDuration(distanceMeters: number): number {
-  return distanceMeters / ROUTE_CONFIG_PROCESSING.walkingSpeedMps;
+export function addRestBreaks(movingSeconds: number, profile: PaceProfile): number {
+  return movingSeconds * (1 + profile.restMinutes / profile.restEveryMinutes);
 }
 
 /**
  * Calculate days needed for a given walking duration
  */
-export function calculateDaysNeeded(durationSeconds: number): number {
+export function calculateDaysNeeded(durationSeconds: number, hoursPerDay: number = loadPaceProfile().hoursPerDay): number {
   const hours = durationSeconds / 3600;
-  return Math.ceil(hours / ROUTE_CONFIG_PROCESSING.walkingHoursPerDay);
+  return Math.ceil(hours / hoursPerDay);
 }
 
 /**
@@ -54,3 +121,30 @@ export function escapeHtml(text: string): string {
 
   return text.replace(/[&<>"']/g, (char) => htmlEntities[char]);
 }
+
+/**
+ * Escape XML special characters
+ */
+export function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Plain text from an HTML fragment, for formats that can't show markup
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -80,6 +80,23 @@ export function calculateBounds(coordinates: Array<[number, number]>): Bounds {
   };
 }
 
+/**
+ * Bounding box extending `meters` in every direction from a point (no padding)
+ */
+export function boundsAround(lat: number, lon: number, meters: number): Bounds {
+  const latPad = meters / 111320;
+  const lonPad = meters / (111320 * Math.cos(toRadians(lat)));
+
+  return {
+    minLat: lat - latPad,
+    maxLat: lat + latPad,
+    minLon: lon - lonPad,
+    maxLon: lon + lonPad,
+    centerLat: lat,
+    centerLon: lon,
+  };
+}
+
 /**
  * Calculate Euclidean distance between two points (for quick comparisons)
  */
@@ -118,3 +135,193 @@ export function sampleCoordinates(
   const step = Math.max(1, Math.floor(coordinates.length / maxPoints));
   return coordinates.filter((_, i) => i % step === 0);
 }
+
+/**
+ * Decode an encoded polyline (Google format) to [lon, lat] coordinates
+ * Valhalla uses precision 6, Google/OSRM polyline use precision 5
+ */
+export function decodePolyline(encoded: string, precision = 5): Array<[number, number]> {
+  const factor = Math.pow(10, precision);
+  const coordinates: Array<[number, number]> = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  const nextValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lon += nextValue();
+    coordinates.push([lon / factor, lat / factor]);
+  }
+
+  return coordinates;
+}
+
+/**
+ * Interpolate points along a path so consecutive points are at most
+ * `spacingMeters` apart. Each point carries its distance along the path.
+ */
+export function densifyPath(
+  coordinates: Array<[number, number]>,
+  spacingMeters: number
+): Array<{ coord: [number, number]; along: number }> {
+  if (coordinates.length === 0) return [];
+
+  const points: Array<{ coord: [number, number]; along: number }> = [{ coord: coordinates[0], along: 0 }];
+  let along = 0;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const [lon1, lat1] = coordinates[i - 1];
+    const [lon2, lat2] = coordinates[i];
+    const dist = haversineDistance(lat1, lon1, lat2, lon2);
+    const pieces = Math.max(1, Math.ceil(dist / spacingMeters));
+
+    for (let j = 1; j <= pieces; j++) {
+      const t = j / pieces;
+      points.push({
+        coord: [lon1 + (lon2 - lon1) * t, lat1 + (lat2 - lat1) * t],
+        along: along + dist * t,
+      });
+    }
+    along += dist;
+  }
+
+  return points;
+}
+
+/**
+ * Spatial index of a path for fast "is this point on the path?" checks
+ */
+export interface PathIndex {
+  cellSize: number; // degrees
+  cells: Map<string, number>; // cell key -> smallest distance along path in that cell
+}
+
+function cellKey(lon: number, lat: number, cellSize: number): string {
+  return `${Math.floor(lon / cellSize)},${Math.floor(lat / cellSize)}`;
+}
+
+/**
+ * Build a grid index over a path, with cells roughly `toleranceMeters` wide
+ */
+export function createPathIndex(coordinates: Array<[number, number]>, toleranceMeters = 30): PathIndex {
+  const cellSize = toleranceMeters / 111320;
+  const cells: Map<string, number> = new Map();
+
+  for (const { coord, along } of densifyPath(coordinates, toleranceMeters / 2)) {
+    const key = cellKey(coord[0], coord[1], cellSize);
+    const existing = cells.get(key);
+    if (existing === undefined || along < existing) {
+      cells.set(key, along);
+    }
+  }
+
+  return { cellSize, cells };
+}
+
+/**
+ * Find a point on an indexed path near (lon, lat)
+ * Returns the distance along the path, or null if the point is off the path
+ */
+export function findOnPath(index: PathIndex, lon: number, lat: number): number | null {
+  const cx = Math.floor(lon / index.cellSize);
+  const cy = Math.floor(lat / index.cellSize);
+  let best: number | null = null;
+
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      const along = index.cells.get(`${cx + dx},${cy + dy}`);
+      if (along !== undefined && (best === null || along < best)) {
+        best = along;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Fraction (0-1) of `path`'s length that runs along `other`
+ */
+export function calculatePathOverlap(
+  path: Array<[number, number]>,
+  other: Array<[number, number]>,
+  toleranceMeters = 30
+): number {
+  const points = densifyPath(path, toleranceMeters / 2);
+  if (points.length < 2) return 1;
+
+  const index = createPathIndex(other, toleranceMeters);
+  let shared = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const [lon, lat] = points[i].coord;
+    if (findOnPath(index, lon, lat) !== null) {
+      shared += points[i].along - points[i - 1].along;
+    }
+  }
+
+  const total = points[points.length - 1].along;
+  return total > 0 ? shared / total : 1;
+}
+
+/**
+ * Whether a point is inside a polygon given as outer ring then holes ([lon, lat])
+ */
+export function isPointInPolygon(lon: number, lat: number, rings: Array<Array<[number, number]>>): boolean {
+  const inRing = (ring: Array<[number, number]>): boolean => {
+    // Ray casting: count edges crossed by a ray heading east
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  };
+
+  const [outer, ...holes] = rings;
+  return !!outer && inRing(outer) && !holes.some(inRing);
+}
+
+/**
+ * Whether line segments a1-a2 and b1-b2 cross or touch
+ */
+export function segmentsIntersect(
+  a1: [number, number],
+  a2: [number, number],
+  b1: [number, number],
+  b2: [number, number]
+): boolean {
+  const cross = (o: [number, number], p: [number, number], q: [number, number]) =>
+    (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]);
+  const onSegment = (o: [number, number], p: [number, number], q: [number, number]) =>
+    Math.min(o[0], p[0]) <= q[0] && q[0] <= Math.max(o[0], p[0]) &&
+    Math.min(o[1], p[1]) <= q[1] && q[1] <= Math.max(o[1], p[1]);
+
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    return true;
+  }
+  return (d1 === 0 && onSegment(b1, b2, a1)) ||
+    (d2 === 0 && onSegment(b1, b2, a2)) ||
+    (d3 === 0 && onSegment(a1, a2, b1)) ||
+    (d4 === 0 && onSegment(a1, a2, b2));
+}